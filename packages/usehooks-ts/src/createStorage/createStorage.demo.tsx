@@ -0,0 +1,44 @@
+import { createStorage } from './createStorage'
+
+type Draft = { id: number; text: string }
+
+// Declared once, every component then uses the same types and defaults
+const appStorage = createStorage<{
+  theme: 'dark' | 'light'
+  drafts: Draft[]
+}>({
+  theme: { defaultValue: 'light' },
+  drafts: { defaultValue: [] },
+})
+
+function DraftCount() {
+  const drafts = appStorage.useReadItem('drafts')
+
+  return <p>{drafts.length} drafts</p>
+}
+
+export default function Component() {
+  const [theme, setTheme] = appStorage.useItem('theme')
+  const [, setDrafts] = appStorage.useItem('drafts')
+
+  return (
+    <div>
+      <p>Current theme: {theme}</p>
+      <button
+        onClick={() => {
+          setTheme(theme === 'light' ? 'dark' : 'light')
+        }}
+      >
+        Toggle theme
+      </button>
+      <button
+        onClick={() => {
+          setDrafts(drafts => [...drafts, { id: Date.now(), text: '' }])
+        }}
+      >
+        New draft
+      </button>
+      <DraftCount />
+    </div>
+  )
+}
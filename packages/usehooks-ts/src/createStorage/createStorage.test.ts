@@ -0,0 +1,88 @@
+import { act, renderHook } from '@testing-library/react'
+
+import { createStorage } from './createStorage'
+
+type Draft = { id: number; text: string }
+
+const appStorage = createStorage<{
+  theme: 'dark' | 'light'
+  drafts: Draft[]
+}>(
+  {
+    theme: { defaultValue: 'light' },
+    drafts: {
+      defaultValue: [],
+      serializer: drafts => drafts.map(draft => draft.text).join('\n'),
+      deserializer: value =>
+        value.split('\n').map((text, id) => ({ id, text })),
+    },
+  },
+  { prefix: 'app:' },
+)
+
+describe('createStorage()', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+    window.sessionStorage.clear()
+  })
+
+  it('returns the declared default value while nothing is stored', () => {
+    const { result } = renderHook(() => appStorage.useItem('theme'))
+    const { result: drafts } = renderHook(() =>
+      appStorage.useReadItem('drafts'),
+    )
+
+    expect(result.current[0]).toBe('light')
+    expect(drafts.current).toEqual([])
+  })
+
+  it('writes the prefixed key and updates the hooks reading it', () => {
+    const { result } = renderHook(() => appStorage.useItem('theme'))
+    const { result: theme } = renderHook(() => appStorage.useReadItem('theme'))
+
+    act(() => {
+      result.current[1]('dark')
+    })
+
+    expect(window.localStorage.getItem('app:theme')).toBe(
+      JSON.stringify('dark'),
+    )
+    expect(theme.current).toBe('dark')
+  })
+
+  it('uses the declared serializer of each key', () => {
+    const { result } = renderHook(() => appStorage.useItem('drafts'))
+
+    act(() => {
+      result.current[1]([
+        { id: 0, text: 'first' },
+        { id: 1, text: 'second' },
+      ])
+    })
+
+    expect(window.localStorage.getItem('app:drafts')).toBe('first\nsecond')
+
+    const { result: drafts } = renderHook(() =>
+      appStorage.useReadItem('drafts'),
+    )
+    expect(drafts.current).toEqual([
+      { id: 0, text: 'first' },
+      { id: 1, text: 'second' },
+    ])
+  })
+
+  it('uses the session storage', () => {
+    const sessionStorage = createStorage<{ step: number }>(
+      { step: { defaultValue: 1 } },
+      { storage: 'sessionStorage' },
+    )
+    const { result } = renderHook(() => sessionStorage.useItem('step'))
+
+    act(() => {
+      result.current[1](step => step + 1)
+    })
+
+    expect(window.sessionStorage.getItem('step')).toBe('2')
+    expect(window.localStorage.getItem('step')).toBeNull()
+  })
+})
@@ -0,0 +1,99 @@
+import type { Dispatch, SetStateAction } from 'react'
+
+import { useLocalStorage } from '../useLocalStorage'
+import { useSessionStorage } from '../useSessionStorage'
+import type { StorageStatus } from '../useStorage'
+import type { VersioningOptions } from '../useStorage/envelope'
+import type { ValidationOptions } from '../useStorage/validation'
+
+/**
+ * The declaration of a key, shared by every hook reading or writing it.
+ * @template T - The type of the stored value.
+ */
+type StorageItemConfig<T> = VersioningOptions<T> &
+  ValidationOptions<T> & {
+    /** The value returned while nothing is stored, or a function that returns it. */
+    defaultValue: T | (() => T)
+    /** A function to serialize the value before storing it. */
+    serializer?: (value: T) => string
+    /** A function to deserialize the stored value. */
+    deserializer?: (value: string) => T
+  }
+
+/**
+ * The declaration of every key of the schema.
+ * @template Schema - The type of the value stored under each key.
+ */
+type StorageConfig<Schema> = {
+  [K in keyof Schema]: StorageItemConfig<Schema[K]>
+}
+
+/** Options for choosing the storage holding the keys. */
+type CreateStorageOptions = {
+  /**
+   * The storage holding the keys.
+   * @default 'localStorage'
+   */
+  storage?: 'localStorage' | 'sessionStorage'
+  /** A prefix added to every key in the storage, like `app:`. */
+  prefix?: string
+}
+
+/**
+ * The hooks bound to a schema, only accepting its keys and typed by their value.
+ * @template Schema - The type of the value stored under each key.
+ */
+type TypedStorage<Schema> = {
+  /** Reads and writes a key, like `useLocalStorage()` with the declared options. */
+  useItem: <K extends keyof Schema & string>(
+    key: K,
+  ) => [
+    Schema[K],
+    Dispatch<SetStateAction<Schema[K]>>,
+    () => void,
+    StorageStatus,
+  ]
+  /** Reads a key, returning the declared default value while nothing is stored. */
+  useReadItem: <K extends keyof Schema & string>(key: K) => Schema[K]
+}
+
+/**
+ * Creates hooks bound to a schema of [`localStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage) or [`sessionStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/sessionStorage) keys, so every component reads and writes a key with the same type, default value and serializer.
+ * @template Schema - The type of the value stored under each key.
+ * @param {StorageConfig<Schema>} config - The default value and the options of each key.
+ * @param {CreateStorageOptions} [options] - Options for choosing the storage holding the keys (optional).
+ * @returns {TypedStorage<Schema>} The `useItem` and `useReadItem` hooks bound to the schema.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/create-storage)
+ * @example
+ * ```tsx
+ * // Declared once, outside of the components
+ * const appStorage = createStorage<{ theme: 'dark' | 'light'; drafts: Draft[] }>({
+ *   theme: { defaultValue: 'light' },
+ *   drafts: { defaultValue: [], version: 2, migrate: migrateDrafts },
+ * });
+ *
+ * // In a component
+ * const [theme, setTheme] = appStorage.useItem('theme');
+ * const drafts = appStorage.useReadItem('drafts');
+ * ```
+ */
+export function createStorage<Schema>(
+  config: StorageConfig<Schema>,
+  options: CreateStorageOptions = {},
+): TypedStorage<Schema> {
+  const { storage = 'localStorage', prefix = '' } = options
+  const useStorageItem =
+    storage === 'sessionStorage' ? useSessionStorage : useLocalStorage
+
+  const useItem: TypedStorage<Schema>['useItem'] = key => {
+    const { defaultValue, ...itemOptions } = config[key]
+    return useStorageItem(`${prefix}${key}`, defaultValue, itemOptions)
+  }
+
+  const useReadItem: TypedStorage<Schema>['useReadItem'] = key => {
+    return useItem(key)[0]
+  }
+
+  return { useItem, useReadItem }
+}
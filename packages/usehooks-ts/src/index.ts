@@ -1,6 +1,8 @@
+export * from './createStorage'
 export * from './useAsync'
 export * from './useBoolean'
 export * from './useClickAnyWhere'
+export * from './useCookie'
 export * from './useCopyToClipboard'
 export * from './useCountdown'
 export * from './useCounter'
@@ -11,22 +13,30 @@ export * from './useDocumentTitle'
 export * from './useEventCallback'
 export * from './useEventListener'
 export * from './useHover'
+export * from './useIndexedDB'
 export * from './useIntersectionObserver'
 export * from './useInterval'
 export * from './useIsClient'
 export * from './useIsMounted'
 export * from './useIsomorphicLayoutEffect'
 export * from './useLocalStorage'
+export * from './useLocalStorageSelector'
 export * from './useMap'
 export * from './useMediaQuery'
 export * from './useOnClickOutside'
+export * from './usePersistentReducer'
 export * from './useReadLocalStorage'
+export * from './useReadSessionStorage'
 export * from './useResizeObserver'
 export * from './useScreen'
 export * from './useScript'
 export * from './useScrollLock'
 export * from './useSessionStorage'
 export * from './useStep'
+export * from './useStorage'
+export * from './useStorageInspector'
+export * from './useStorageKeys'
+export * from './useStorageTransaction'
 export * from './useTernaryDarkMode'
 export * from './useTimeout'
 export * from './useToggle'
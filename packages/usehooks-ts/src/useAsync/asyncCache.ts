@@ -0,0 +1,410 @@
+/** The status of the async operation. */
+export type AsyncStatus = 'idle' | 'loading' | 'retrying' | 'success' | 'error'
+
+/**
+ * The state of an async operation, shared by every hook using the same cache key.
+ * @template T - The type of data returned by the async function.
+ */
+export type AsyncSnapshot<T> = {
+  /** The current status of the async operation. */
+  status: AsyncStatus
+  /** The data of the last successful call, wrapped to tell apart a missing value from a `null` one. */
+  result: { data: T } | null
+  /** The error of the last failed call. */
+  error: Error | null
+  /** The number of the current attempt, 0 when idle. */
+  attempt: number
+}
+
+/** Options for running the async function of an entry. */
+export type FetchOptions = {
+  /** The number of retries after a failure, or a function deciding whether to retry. */
+  retry?: number | ((attempt: number, error: Error) => boolean)
+  /** The delay before a retry in milliseconds, or a function returning it. */
+  retryDelay?: number | ((attempt: number, error: Error) => number)
+  /** Whether to keep the previous data while running, instead of clearing it. */
+  keepPreviousData?: boolean
+  /** Whether to join the running call, instead of aborting it. */
+  dedupe?: boolean
+  /** The time in milliseconds the entry stays in the cache without subscribers. */
+  cacheTime?: number
+}
+
+/**
+ * The async operation of a hook, or of every hook using the same cache key.
+ * @template T - The type of data returned by the async function.
+ */
+export type AsyncEntry<T> = {
+  /** Subscribes to the changes of the state, returning a function to unsubscribe. */
+  subscribe: (listener: () => void) => () => void
+  /** Returns the current state, the same object as long as it doesn't change. */
+  getSnapshot: () => AsyncSnapshot<T>
+  /** Updates the state and notifies the subscribers. */
+  setSnapshot: (patch: Partial<AsyncSnapshot<T>>) => void
+  /** Whether a hook is subscribed to the entry. */
+  isObserved: () => boolean
+  /** Removes the entry from the cache after its cache time, once unobserved and settled. */
+  scheduleRemoval: () => void
+  /** The controller of the latest call, aborted when another call starts and on reset. */
+  controller: AbortController | null
+  /** The promise of the running call, `null` once it settles. */
+  promise: Promise<T | undefined> | null
+  /** The time of the last successful call, 0 if there is none or it was invalidated. */
+  updatedAt: number
+  /** The time in milliseconds the entry stays in the cache without subscribers. */
+  cacheTime: number
+  /** The latest call, run again when the entry is invalidated. */
+  lastRequest: {
+    asyncFunction: (signal: AbortSignal) => Promise<T>
+    options: FetchOptions
+  } | null
+}
+
+/** Options for prefetching the data of a key. */
+type PrefetchOptions = {
+  /**
+   * The time in milliseconds the cached data is fresh, and not fetched again.
+   * @default 0
+   */
+  staleTime?: number
+  /**
+   * The time in milliseconds the entry stays in the cache without subscribers.
+   * @default 300000
+   */
+  cacheTime?: number
+}
+
+/** Manages the async operations shared by the `useAsync()` hooks using the same cache key. */
+type AsyncCache = {
+  /** Marks the data of a key as stale, or of every key, fetching it again if a hook uses it. */
+  invalidate: (cacheKey?: string) => void
+  /** Fetches the data of a key before a hook uses it, resolving with the data, or `undefined` if the call fails. */
+  prefetch: <T>(
+    cacheKey: string,
+    asyncFunction: (signal: AbortSignal) => Promise<T>,
+    options?: PrefetchOptions,
+  ) => Promise<T | undefined>
+  /** Aborts the running calls and removes every entry, like between tests. */
+  clear: () => void
+}
+
+export const DEFAULT_CACHE_TIME = 5 * 60 * 1000
+
+const INITIAL_SNAPSHOT: AsyncSnapshot<never> = {
+  status: 'idle',
+  result: null,
+  error: null,
+  attempt: 0,
+}
+
+// One entry per cache key
+const entries = new Map<string, AsyncEntry<unknown>>()
+
+/**
+ * The default delay before a retry: an exponential backoff, capped at 30 seconds, with a random jitter of up to half the delay.
+ * @param {number} attempt - The number of failed attempts.
+ * @returns {number} The delay in milliseconds.
+ * @example
+ * ```ts
+ * defaultRetryDelay(3) // between 2000 and 4000
+ * ```
+ */
+function defaultRetryDelay(attempt: number): number {
+  const delay = Math.min(1000 * 2 ** (attempt - 1), 30000)
+  return delay / 2 + (Math.random() * delay) / 2
+}
+
+/**
+ * Waits for a delay, resolving early if the signal is aborted.
+ * @param {number} delay - The delay in milliseconds.
+ * @param {AbortSignal} signal - The signal cancelling the wait.
+ * @returns {Promise<void>} A promise resolving after the delay or on abort.
+ * @example
+ * ```ts
+ * await wait(1000, controller.signal)
+ * ```
+ */
+function wait(delay: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timeout)
+      resolve()
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Creates the entry of an async operation.
+ * @template T - The type of data returned by the async function.
+ * @param {string} [cacheKey] - The key of the entry in the cache, if it's shared.
+ * @returns {AsyncEntry<T>} The entry.
+ * @example
+ * ```ts
+ * const entry = createAsyncEntry<User>()
+ * ```
+ */
+export function createAsyncEntry<T>(cacheKey?: string): AsyncEntry<T> {
+  const listeners = new Set<() => void>()
+  let snapshot: AsyncSnapshot<T> = INITIAL_SNAPSHOT
+  let removalTimeout: ReturnType<typeof setTimeout> | undefined
+
+  const entry: AsyncEntry<T> = {
+    subscribe: listener => {
+      clearTimeout(removalTimeout)
+      listeners.add(listener)
+
+      return () => {
+        listeners.delete(listener)
+        entry.scheduleRemoval()
+      }
+    },
+    getSnapshot: () => snapshot,
+    setSnapshot: patch => {
+      snapshot = { ...snapshot, ...patch }
+      listeners.forEach(listener => {
+        listener()
+      })
+    },
+    isObserved: () => listeners.size > 0,
+    scheduleRemoval: () => {
+      // `setTimeout()` runs an infinite delay immediately
+      if (
+        cacheKey === undefined ||
+        listeners.size > 0 ||
+        entry.promise !== null ||
+        entry.cacheTime === Infinity
+      ) {
+        return
+      }
+
+      clearTimeout(removalTimeout)
+      removalTimeout = setTimeout(() => {
+        // Kept while a call started meanwhile is running
+        if (entry.promise === null && entries.get(cacheKey) === entry) {
+          entries.delete(cacheKey)
+        }
+      }, entry.cacheTime)
+    },
+    controller: null,
+    promise: null,
+    updatedAt: 0,
+    cacheTime: DEFAULT_CACHE_TIME,
+    lastRequest: null,
+  }
+
+  return entry
+}
+
+/**
+ * Gets the entry of a cache key, shared by every hook using it.
+ * @template T - The type of data returned by the async function.
+ * @param {string} cacheKey - The cache key.
+ * @returns {AsyncEntry<T>} The entry.
+ * @example
+ * ```ts
+ * const entry = getAsyncEntry<User>('user:1')
+ * const snapshot = useSyncExternalStore(entry.subscribe, entry.getSnapshot)
+ * ```
+ */
+export function getAsyncEntry<T>(cacheKey: string): AsyncEntry<T> {
+  let entry = entries.get(cacheKey)
+  if (!entry) {
+    entry = createAsyncEntry(cacheKey)
+    entries.set(cacheKey, entry)
+    // Removed unless a hook subscribes, as the render creating it may be discarded
+    entry.scheduleRemoval()
+  }
+
+  return entry as unknown as AsyncEntry<T>
+}
+
+/**
+ * Checks whether the data of an entry is fresh, so it isn't fetched again.
+ * @template T - The type of data returned by the async function.
+ * @param {AsyncEntry<T>} entry - The entry.
+ * @param {number} staleTime - The time in milliseconds the data is fresh.
+ * @returns {boolean} `true` if the last call succeeded less than `staleTime` ago.
+ * @example
+ * ```ts
+ * isFresh(entry, 60000)
+ * ```
+ */
+export function isFresh<T>(entry: AsyncEntry<T>, staleTime: number): boolean {
+  return (
+    entry.getSnapshot().status === 'success' &&
+    entry.updatedAt > 0 &&
+    Date.now() - entry.updatedAt < staleTime
+  )
+}
+
+/**
+ * Runs the async function of an entry, retrying it on failure, and stores its result.
+ * Only the latest call updates the state: the previous one is aborted, or joined with the `dedupe` option.
+ * @template T - The type of data returned by the async function.
+ * @param {AsyncEntry<T>} entry - The entry.
+ * @param {(signal: AbortSignal) => Promise<T>} asyncFunction - The async function.
+ * @param {FetchOptions} [options] - Options for running the function.
+ * @returns {Promise<T | undefined>} The returned data, or `undefined` if the call fails or is aborted.
+ * @example
+ * ```ts
+ * const user = await fetchEntry(entry, signal => fetchUser(1, { signal }), { retry: 3 })
+ * ```
+ */
+export function fetchEntry<T>(
+  entry: AsyncEntry<T>,
+  asyncFunction: (signal: AbortSignal) => Promise<T>,
+  options: FetchOptions = {},
+): Promise<T | undefined> {
+  const {
+    retry = 0,
+    retryDelay,
+    keepPreviousData = false,
+    dedupe = false,
+    cacheTime,
+  } = options
+
+  if (dedupe && entry.promise) {
+    return entry.promise
+  }
+
+  entry.controller?.abort()
+  const controller = new AbortController()
+  entry.controller = controller
+  entry.lastRequest = { asyncFunction, options }
+  if (cacheTime !== undefined) {
+    entry.cacheTime = cacheTime
+  }
+
+  entry.setSnapshot({
+    status: 'loading',
+    result: keepPreviousData ? entry.getSnapshot().result : null,
+    error: null,
+    attempt: 1,
+  })
+
+  const run = async (attempt: number): Promise<T | undefined> => {
+    try {
+      const response = await asyncFunction(controller.signal)
+
+      if (!controller.signal.aborted) {
+        entry.updatedAt = Date.now()
+        entry.setSnapshot({ status: 'success', result: { data: response } })
+        return response
+      }
+    } catch (err) {
+      // The errors of the aborted calls are expected, like an `AbortError` from `fetch()`
+      if (controller.signal.aborted) {
+        return undefined
+      }
+
+      const failure = err instanceof Error ? err : new Error(String(err))
+      const shouldRetry =
+        typeof retry === 'function' ? retry(attempt, failure) : attempt <= retry
+
+      if (!shouldRetry) {
+        entry.setSnapshot({ status: 'error', error: failure })
+        return undefined
+      }
+
+      entry.setSnapshot({ status: 'retrying' })
+      const delay =
+        typeof retryDelay === 'function'
+          ? retryDelay(attempt, failure)
+          : (retryDelay ?? defaultRetryDelay(attempt))
+      // Resolves early on abort, cancelling the pending retry
+      await wait(delay, controller.signal)
+
+      if (!controller.signal.aborted) {
+        entry.setSnapshot({ attempt: attempt + 1 })
+        return run(attempt + 1)
+      }
+    }
+
+    return undefined
+  }
+
+  const promise = run(1)
+  entry.promise = promise
+
+  const settle = () => {
+    if (entry.promise === promise) {
+      entry.promise = null
+      entry.scheduleRemoval()
+    }
+  }
+  void promise.then(settle, settle)
+
+  return promise
+}
+
+/**
+ * Aborts the running call of an entry and resets its state.
+ * @template T - The type of data returned by the async function.
+ * @param {AsyncEntry<T>} entry - The entry.
+ * @example
+ * ```ts
+ * resetEntry(entry)
+ * ```
+ */
+export function resetEntry<T>(entry: AsyncEntry<T>): void {
+  entry.controller?.abort()
+  entry.promise = null
+  entry.updatedAt = 0
+  entry.setSnapshot(INITIAL_SNAPSHOT)
+}
+
+/** The cache of the async operations, shared by the `useAsync()` hooks using the same `cacheKey`. */
+export const asyncCache: AsyncCache = {
+  invalidate: cacheKey => {
+    const invalidated =
+      cacheKey === undefined
+        ? Array.from(entries.values())
+        : [entries.get(cacheKey)]
+
+    invalidated.forEach(entry => {
+      if (!entry) {
+        return
+      }
+
+      entry.updatedAt = 0
+      // The unobserved entries are fetched again by the next hook using them
+      if (entry.isObserved() && entry.lastRequest) {
+        const { asyncFunction, options } = entry.lastRequest
+        void fetchEntry(entry, asyncFunction, { ...options, dedupe: false })
+      }
+    })
+  },
+  prefetch: <T>(
+    cacheKey: string,
+    asyncFunction: (signal: AbortSignal) => Promise<T>,
+    options: PrefetchOptions = {},
+  ) => {
+    const { staleTime = 0, cacheTime } = options
+    const entry = getAsyncEntry<T>(cacheKey)
+
+    const { result } = entry.getSnapshot()
+    if (result && isFresh(entry, staleTime)) {
+      return Promise.resolve(result.data)
+    }
+
+    return fetchEntry(entry, asyncFunction, {
+      keepPreviousData: true,
+      dedupe: true,
+      cacheTime,
+    })
+  },
+  clear: () => {
+    const cleared = Array.from(entries.values())
+    entries.clear()
+
+    // The subscribers render again, using new entries
+    cleared.forEach(entry => {
+      resetEntry(entry)
+    })
+  },
+}
@@ -1 +1,2 @@
+export { asyncCache } from './asyncCache'
 export * from './useAsync'
@@ -1,9 +1,20 @@
+import { useState } from 'react'
+
 import { useAsync } from './useAsync'
 
 // Simulated API call
-const fetchUser = async (userId: number): Promise<{ id: number; name: string; email: string }> => {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 1500))
+const fetchUser = async (
+  userId: number,
+  signal: AbortSignal,
+): Promise<{ id: number; name: string; email: string }> => {
+  // Simulate network delay, cancelled like fetch() when the signal is aborted
+  await new Promise((resolve, reject) => {
+    const timeout = setTimeout(resolve, 1500)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeout)
+      reject(new DOMException('Aborted', 'AbortError'))
+    })
+  })
 
   // Simulate occasional errors
   if (Math.random() > 0.8) {
@@ -18,18 +29,46 @@ const fetchUser = async (userId: number): Promise<{ id: number; name: string; em
 }
 
 export default function Component() {
-  const { data, loading, error, execute, reset, status } = useAsync(
-    () => fetchUser(1),
-    { immediate: false },
-  )
+  const [userId, setUserId] = useState(1)
+  // Fetches the user again when the id changes, aborting the previous request,
+  // retries twice before reporting an error and shows the previous user meanwhile
+  const {
+    data,
+    loading,
+    isRefetching,
+    error,
+    execute,
+    reset,
+    status,
+    attempt,
+  } = useAsync(signal => fetchUser(userId, signal), {
+    immediate: false,
+    deps: [userId],
+    retry: 2,
+    retryDelay: 500,
+    keepPreviousData: true,
+  })
 
   return (
     <div>
       <h2>useAsync Demo</h2>
 
       <div style={{ marginBottom: '1rem' }}>
-        <button onClick={execute} disabled={loading}>
-          {loading ? 'Loading...' : 'Fetch User'}
+        <button
+          onClick={() => {
+            void execute()
+          }}
+          disabled={loading || isRefetching}
+        >
+          {loading || isRefetching ? 'Loading...' : 'Fetch User'}
+        </button>
+        <button
+          onClick={() => {
+            setUserId(id => id + 1)
+          }}
+          style={{ marginLeft: '0.5rem' }}
+        >
+          Next User
         </button>
         <button onClick={reset} style={{ marginLeft: '0.5rem' }}>
           Reset
@@ -43,6 +82,12 @@ export default function Component() {
         <p>
           <strong>Loading:</strong> <code>{loading.toString()}</code>
         </p>
+        <p>
+          <strong>Refetching:</strong> <code>{isRefetching.toString()}</code>
+        </p>
+        <p>
+          <strong>Attempt:</strong> <code>{attempt}</code>
+        </p>
       </div>
 
       {error && (
@@ -54,7 +99,13 @@ export default function Component() {
       {data && (
         <div style={{ marginTop: '1rem' }}>
           <strong>User Data:</strong>
-          <pre style={{ background: '#f5f5f5', padding: '1rem', borderRadius: '4px' }}>
+          <pre
+            style={{
+              background: '#f5f5f5',
+              padding: '1rem',
+              borderRadius: '4px',
+            }}
+          >
             {JSON.stringify(data, null, 2)}
           </pre>
         </div>
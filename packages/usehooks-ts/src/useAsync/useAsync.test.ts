@@ -1,5 +1,8 @@
+import { StrictMode } from 'react'
+
 import { act, renderHook, waitFor } from '@testing-library/react'
 
+import { asyncCache, DEFAULT_CACHE_TIME, getAsyncEntry } from './asyncCache'
 import { useAsync } from './useAsync'
 
 describe('useAsync()', () => {
@@ -243,4 +246,875 @@ describe('useAsync()', () => {
     expect(secondFunction).toHaveBeenCalledTimes(1)
     expect(result.current.data).toBe('second')
   })
+
+  describe('abort', () => {
+    // Resolves with the value after the delay, or rejects once the signal is aborted
+    const delayed = (value: string, delay: number, signal: AbortSignal) =>
+      new Promise<string>((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          resolve(value)
+        }, delay)
+        signal.addEventListener('abort', () => {
+          clearTimeout(timeout)
+          reject(new DOMException('Aborted', 'AbortError'))
+        })
+      })
+
+    it('should pass an AbortSignal to the async function', async () => {
+      const asyncFunction = vi.fn((signal: AbortSignal) =>
+        Promise.resolve(signal),
+      )
+      const { result } = renderHook(() => useAsync(asyncFunction))
+
+      await waitFor(() => {
+        expect(result.current.status).toBe('success')
+      })
+
+      expect(result.current.data).toBeInstanceOf(AbortSignal)
+      expect(result.current.data?.aborted).toBe(false)
+    })
+
+    it('should abort the previous call when executing again', async () => {
+      const signals: AbortSignal[] = []
+      const asyncFunction = vi.fn((signal: AbortSignal) => {
+        signals.push(signal)
+        return delayed(`call ${String(signals.length)}`, 10, signal)
+      })
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { immediate: false }),
+      )
+
+      await act(async () => {
+        void result.current.execute()
+        await result.current.execute()
+      })
+
+      expect(signals[0]?.aborted).toBe(true)
+      expect(signals[1]?.aborted).toBe(false)
+      // The AbortError of the first call is not reported
+      expect(result.current.error).toBe(null)
+      expect(result.current.status).toBe('success')
+      expect(result.current.data).toBe('call 2')
+    })
+
+    it('should keep the result of the latest call', async () => {
+      let calls = 0
+      // The first call ignores the signal and resolves after the second one
+      const asyncFunction = vi.fn(() => {
+        calls += 1
+        const value = `call ${String(calls)}`
+        return new Promise<string>(resolve => {
+          setTimeout(
+            () => {
+              resolve(value)
+            },
+            calls === 1 ? 20 : 10,
+          )
+        })
+      })
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { immediate: false }),
+      )
+
+      await act(async () => {
+        const first = result.current.execute()
+        await result.current.execute()
+        await first
+      })
+
+      expect(result.current.data).toBe('call 2')
+      expect(result.current.status).toBe('success')
+    })
+
+    it('should abort the running call on reset', async () => {
+      let signal: AbortSignal | undefined
+      const asyncFunction = vi.fn((nextSignal: AbortSignal) => {
+        signal = nextSignal
+        return delayed('data', 10, nextSignal)
+      })
+      const { result } = renderHook(() => useAsync(asyncFunction))
+
+      act(() => {
+        result.current.reset()
+      })
+
+      expect(signal?.aborted).toBe(true)
+
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 20))
+      })
+
+      expect(result.current.status).toBe('idle')
+      expect(result.current.error).toBe(null)
+    })
+
+    it('should abort the running call on unmount', () => {
+      let signal: AbortSignal | undefined
+      const asyncFunction = vi.fn((nextSignal: AbortSignal) => {
+        signal = nextSignal
+        return delayed('data', 10, nextSignal)
+      })
+      const { unmount } = renderHook(() => useAsync(asyncFunction))
+
+      expect(signal?.aborted).toBe(false)
+
+      unmount()
+
+      expect(signal?.aborted).toBe(true)
+    })
+  })
+
+  describe('arguments and dependencies', () => {
+    it('should forward the arguments after the signal', async () => {
+      const asyncFunction = vi.fn(
+        (_signal: AbortSignal, id: number, name: string) =>
+          Promise.resolve(`${String(id)}: ${name}`),
+      )
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { immediate: false }),
+      )
+
+      await act(async () => {
+        await result.current.execute(1, 'Alice')
+      })
+
+      expect(asyncFunction).toHaveBeenCalledWith(
+        expect.any(AbortSignal) as AbortSignal,
+        1,
+        'Alice',
+      )
+      expect(result.current.data).toBe('1: Alice')
+    })
+
+    it('should resolve with the returned data', async () => {
+      const asyncFunction = vi.fn((_signal: AbortSignal, id: number) =>
+        Promise.resolve({ id }),
+      )
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { immediate: false }),
+      )
+
+      let response: { id: number } | undefined
+      await act(async () => {
+        response = await result.current.execute(2)
+      })
+
+      expect(response).toEqual({ id: 2 })
+      expect(response).toBe(result.current.data)
+    })
+
+    it('should resolve with undefined when the call fails', async () => {
+      const asyncFunction = vi.fn().mockRejectedValue(new Error('failed'))
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { immediate: false }),
+      )
+
+      let response: unknown = null
+      await act(async () => {
+        response = await result.current.execute()
+      })
+
+      expect(response).toBeUndefined()
+      expect(result.current.status).toBe('error')
+    })
+
+    it('should re-execute when the dependencies change', async () => {
+      const asyncFunction = vi.fn()
+      const { result, rerender } = renderHook(
+        ({ id }) =>
+          useAsync(
+            () => {
+              asyncFunction(id)
+              return Promise.resolve(id)
+            },
+            { deps: [id] },
+          ),
+        { initialProps: { id: 1 } },
+      )
+
+      await waitFor(() => {
+        expect(result.current.data).toBe(1)
+      })
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+
+      rerender({ id: 1 })
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+
+      rerender({ id: 2 })
+
+      await waitFor(() => {
+        expect(result.current.data).toBe(2)
+      })
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+      expect(asyncFunction).toHaveBeenLastCalledWith(2)
+    })
+
+    it('should only execute on dependency changes when not immediate', async () => {
+      const asyncFunction = vi.fn().mockResolvedValue('data')
+      const { result, rerender } = renderHook(
+        ({ id }) => useAsync(asyncFunction, { immediate: false, deps: [id] }),
+        { initialProps: { id: 1 } },
+      )
+
+      expect(asyncFunction).not.toHaveBeenCalled()
+      expect(result.current.status).toBe('idle')
+
+      rerender({ id: 2 })
+
+      await waitFor(() => {
+        expect(result.current.status).toBe('success')
+      })
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not execute the mount again in strict mode', async () => {
+      const asyncFunction = vi.fn().mockResolvedValue('data')
+      const { result, rerender } = renderHook(
+        ({ id }) => useAsync(asyncFunction, { immediate: false, deps: [id] }),
+        { initialProps: { id: 1 }, wrapper: StrictMode },
+      )
+
+      expect(asyncFunction).not.toHaveBeenCalled()
+
+      rerender({ id: 2 })
+
+      await waitFor(() => {
+        expect(result.current.status).toBe('success')
+      })
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+    })
+
+    it('should only execute the mount twice in strict mode', async () => {
+      const asyncFunction = vi
+        .fn<[AbortSignal], Promise<string>>()
+        .mockResolvedValue('data')
+      const { result } = renderHook(
+        () => useAsync(asyncFunction, { deps: [1] }),
+        { wrapper: StrictMode },
+      )
+
+      await waitFor(() => {
+        expect(result.current.status).toBe('success')
+      })
+      // The first call is aborted by the simulated unmount
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+      expect(asyncFunction.mock.calls[0][0].aborted).toBe(true)
+    })
+  })
+
+  describe('retry', () => {
+    beforeEach(() => {
+      vitest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vitest.useRealTimers()
+    })
+
+    // Lets the pending promises settle and runs the timers due after the delay
+    const advance = async (delay: number) => {
+      await act(async () => {
+        await vitest.advanceTimersByTimeAsync(delay)
+      })
+    }
+
+    it('should not retry by default', async () => {
+      const asyncFunction = vi.fn().mockRejectedValue(new Error('failed'))
+      const { result } = renderHook(() => useAsync(asyncFunction))
+
+      await advance(60000)
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+      expect(result.current.status).toBe('error')
+      expect(result.current.attempt).toBe(1)
+    })
+
+    it('should retry the failed calls until they succeed', async () => {
+      const asyncFunction = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('first'))
+        .mockRejectedValueOnce(new Error('second'))
+        .mockResolvedValueOnce('data')
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { retry: 3, retryDelay: 1000 }),
+      )
+
+      await advance(0)
+
+      expect(result.current.status).toBe('retrying')
+      expect(result.current.loading).toBe(true)
+      expect(result.current.error).toBe(null)
+      expect(result.current.attempt).toBe(1)
+
+      await advance(999)
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+
+      await advance(1)
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+      expect(result.current.status).toBe('retrying')
+      expect(result.current.attempt).toBe(2)
+
+      await advance(1000)
+
+      expect(asyncFunction).toHaveBeenCalledTimes(3)
+      expect(result.current.status).toBe('success')
+      expect(result.current.data).toBe('data')
+      expect(result.current.attempt).toBe(3)
+    })
+
+    it('should report the error once the retries are exhausted', async () => {
+      const asyncFunction = vi.fn().mockRejectedValue(new Error('failed'))
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { retry: 2, retryDelay: 100 }),
+      )
+
+      await advance(1000)
+
+      expect(asyncFunction).toHaveBeenCalledTimes(3)
+      expect(result.current.status).toBe('error')
+      expect(result.current.error?.message).toBe('failed')
+      expect(result.current.attempt).toBe(3)
+    })
+
+    it('should only retry when the predicate returns true', async () => {
+      const asyncFunction = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('network'))
+        .mockRejectedValueOnce(new Error('not found'))
+      const retry = vi.fn(
+        (_attempt: number, error: Error) => error.message === 'network',
+      )
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { retry, retryDelay: 100 }),
+      )
+
+      await advance(1000)
+
+      expect(retry).toHaveBeenNthCalledWith(1, 1, new Error('network'))
+      expect(retry).toHaveBeenNthCalledWith(2, 2, new Error('not found'))
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+      expect(result.current.status).toBe('error')
+      expect(result.current.error?.message).toBe('not found')
+    })
+
+    it('should wait for the delay returned by the function', async () => {
+      const asyncFunction = vi.fn().mockRejectedValue(new Error('failed'))
+      const retryDelay = vi.fn((attempt: number) => 100 * 2 ** attempt)
+      renderHook(() => useAsync(asyncFunction, { retry: 2, retryDelay }))
+
+      await advance(199)
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+
+      await advance(1)
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+
+      await advance(399)
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+
+      await advance(1)
+      expect(asyncFunction).toHaveBeenCalledTimes(3)
+      expect(retryDelay).toHaveBeenNthCalledWith(1, 1, new Error('failed'))
+      expect(retryDelay).toHaveBeenNthCalledWith(2, 2, new Error('failed'))
+    })
+
+    it('should back off exponentially with jitter by default', async () => {
+      const random = vitest.spyOn(Math, 'random').mockReturnValue(1)
+      const asyncFunction = vi.fn().mockRejectedValue(new Error('failed'))
+      renderHook(() => useAsync(asyncFunction, { retry: 2 }))
+
+      await advance(999)
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+
+      await advance(1)
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+
+      await advance(1999)
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+
+      await advance(1)
+      expect(asyncFunction).toHaveBeenCalledTimes(3)
+
+      random.mockRestore()
+    })
+
+    it('should cancel the pending retry on reset', async () => {
+      const asyncFunction = vi.fn().mockRejectedValue(new Error('failed'))
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { retry: 1, retryDelay: 1000 }),
+      )
+
+      await advance(0)
+      expect(result.current.status).toBe('retrying')
+
+      act(() => {
+        result.current.reset()
+      })
+      await advance(2000)
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+      expect(result.current.status).toBe('idle')
+      expect(result.current.attempt).toBe(0)
+    })
+
+    it('should cancel the pending retry on unmount', async () => {
+      const asyncFunction = vi.fn().mockRejectedValue(new Error('failed'))
+      const { unmount } = renderHook(() =>
+        useAsync(asyncFunction, { retry: 1, retryDelay: 1000 }),
+      )
+
+      await advance(0)
+      unmount()
+      await advance(2000)
+
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('keepPreviousData', () => {
+    // Returns a function resolving each call with the next value, once `resolveNext()` is called
+    const createDeferredFunction = () => {
+      const resolvers: ((value: string) => void)[] = []
+      const asyncFunction = vi.fn(
+        () =>
+          new Promise<string>(resolve => {
+            resolvers.push(resolve)
+          }),
+      )
+      const resolveNext = async (value: string) => {
+        await act(async () => {
+          resolvers.shift()?.(value)
+          await Promise.resolve()
+        })
+      }
+      return { asyncFunction, resolveNext }
+    }
+
+    it('should clear the previous data by default', async () => {
+      const { asyncFunction, resolveNext } = createDeferredFunction()
+      const { result } = renderHook(() => useAsync(asyncFunction))
+
+      expect(result.current.loading).toBe(true)
+      expect(result.current.isRefetching).toBe(false)
+
+      await resolveNext('first')
+      expect(result.current.data).toBe('first')
+
+      act(() => {
+        void result.current.execute()
+      })
+
+      expect(result.current.data).toBe(null)
+      expect(result.current.loading).toBe(true)
+      expect(result.current.isRefetching).toBe(false)
+    })
+
+    it('should keep the previous data while refetching', async () => {
+      const { asyncFunction, resolveNext } = createDeferredFunction()
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { keepPreviousData: true }),
+      )
+
+      // Nothing to show yet on the initial load
+      expect(result.current.loading).toBe(true)
+      expect(result.current.isRefetching).toBe(false)
+
+      await resolveNext('first')
+
+      act(() => {
+        void result.current.execute()
+      })
+
+      expect(result.current.status).toBe('loading')
+      expect(result.current.data).toBe('first')
+      expect(result.current.loading).toBe(false)
+      expect(result.current.isRefetching).toBe(true)
+
+      await resolveNext('second')
+
+      expect(result.current.status).toBe('success')
+      expect(result.current.data).toBe('second')
+      expect(result.current.isRefetching).toBe(false)
+    })
+
+    it('should keep a previous null value', async () => {
+      const asyncFunction = vi.fn().mockResolvedValue(null)
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { keepPreviousData: true }),
+      )
+
+      await waitFor(() => {
+        expect(result.current.status).toBe('success')
+      })
+
+      act(() => {
+        void result.current.execute()
+      })
+
+      expect(result.current.isRefetching).toBe(true)
+      expect(result.current.loading).toBe(false)
+
+      await waitFor(() => {
+        expect(result.current.isRefetching).toBe(false)
+      })
+    })
+
+    it('should keep the previous data when the refetch fails', async () => {
+      const asyncFunction = vi
+        .fn()
+        .mockResolvedValueOnce('first')
+        .mockRejectedValueOnce(new Error('failed'))
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { keepPreviousData: true }),
+      )
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('first')
+      })
+
+      await act(async () => {
+        await result.current.execute()
+      })
+
+      expect(result.current.status).toBe('error')
+      expect(result.current.error?.message).toBe('failed')
+      expect(result.current.data).toBe('first')
+      expect(result.current.isRefetching).toBe(false)
+    })
+
+    it('should clear the previous data on reset', async () => {
+      const asyncFunction = vi.fn().mockResolvedValue('data')
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { keepPreviousData: true }),
+      )
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('data')
+      })
+
+      act(() => {
+        result.current.reset()
+      })
+      act(() => {
+        void result.current.execute()
+      })
+
+      expect(result.current.data).toBe(null)
+      expect(result.current.loading).toBe(true)
+      expect(result.current.isRefetching).toBe(false)
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('data')
+      })
+    })
+  })
+
+  describe('cacheKey', () => {
+    // Once the hooks of the previous test are unmounted
+    beforeEach(() => {
+      asyncCache.clear()
+    })
+
+    it('should dedupe the concurrent calls of a key', async () => {
+      const asyncFunction = vi.fn().mockResolvedValue('data')
+      const { result: first } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user' }),
+      )
+      const { result: second } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user' }),
+      )
+
+      expect(second.current.loading).toBe(true)
+
+      await waitFor(() => {
+        expect(first.current.data).toBe('data')
+      })
+      expect(second.current.data).toBe('data')
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+    })
+
+    it('should join the running call when executing', async () => {
+      const asyncFunction = vi.fn().mockResolvedValue('data')
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user', immediate: false }),
+      )
+
+      let responses: unknown[] = []
+      await act(async () => {
+        responses = await Promise.all([
+          result.current.execute(),
+          result.current.execute(),
+        ])
+      })
+
+      expect(responses).toEqual(['data', 'data'])
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep the data of the previous key with keepPreviousData', async () => {
+      const resolvers = new Map<number, (rows: string) => void>()
+      const fetchRows = vi.fn(
+        (page: number) =>
+          new Promise<string>(resolve => {
+            resolvers.set(page, resolve)
+          }),
+      )
+      const { result, rerender } = renderHook(
+        ({ page }) =>
+          useAsync(() => fetchRows(page), {
+            cacheKey: `rows:${String(page)}`,
+            deps: [page],
+            keepPreviousData: true,
+          }),
+        { initialProps: { page: 1 } },
+      )
+
+      await act(async () => {
+        resolvers.get(1)?.('page 1')
+        await Promise.resolve()
+      })
+      expect(result.current.data).toBe('page 1')
+
+      rerender({ page: 2 })
+
+      expect(result.current.status).toBe('loading')
+      expect(result.current.data).toBe('page 1')
+      expect(result.current.loading).toBe(false)
+      expect(result.current.isRefetching).toBe(true)
+
+      await act(async () => {
+        resolvers.get(2)?.('page 2')
+        await Promise.resolve()
+      })
+
+      expect(result.current.data).toBe('page 2')
+      expect(result.current.isRefetching).toBe(false)
+      expect(fetchRows).toHaveBeenCalledTimes(2)
+    })
+
+    it('should share the state between the hooks of a key', async () => {
+      const asyncFunction = vi
+        .fn()
+        .mockResolvedValueOnce('first')
+        .mockResolvedValueOnce('second')
+      const { result: first } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user' }),
+      )
+      const { result: other } = renderHook(() =>
+        useAsync(() => Promise.resolve('other'), { cacheKey: 'other' }),
+      )
+      const { result: second } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user', immediate: false }),
+      )
+
+      await waitFor(() => {
+        expect(second.current.data).toBe('first')
+      })
+
+      await act(async () => {
+        await first.current.execute()
+      })
+      expect(second.current.data).toBe('second')
+
+      act(() => {
+        second.current.reset()
+      })
+      expect(first.current.status).toBe('idle')
+      expect(first.current.data).toBe(null)
+      expect(other.current.data).toBe('other')
+    })
+
+    it('should keep running the call for the cache on unmount', async () => {
+      let signal: AbortSignal | undefined
+      const asyncFunction = vi.fn((nextSignal: AbortSignal) => {
+        signal = nextSignal
+        return Promise.resolve('data')
+      })
+      const { unmount } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user', staleTime: Infinity }),
+      )
+
+      unmount()
+      expect(signal?.aborted).toBe(false)
+
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user', staleTime: Infinity }),
+      )
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('data')
+      })
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+    })
+
+    describe('with timers', () => {
+      beforeEach(() => {
+        vitest.useFakeTimers()
+      })
+
+      afterEach(() => {
+        vitest.useRealTimers()
+      })
+
+      const advance = async (delay: number) => {
+        await act(async () => {
+          await vitest.advanceTimersByTimeAsync(delay)
+        })
+      }
+
+      it('should use the fresh cached data', async () => {
+        const asyncFunction = vi
+          .fn()
+          .mockResolvedValueOnce('first')
+          .mockResolvedValueOnce('second')
+        const options = { cacheKey: 'user', staleTime: 1000 }
+        const { unmount } = renderHook(() => useAsync(asyncFunction, options))
+
+        await advance(0)
+        unmount()
+        await advance(500)
+
+        // Fresh: shown without fetching
+        const { result, unmount: unmountAgain } = renderHook(() =>
+          useAsync(asyncFunction, options),
+        )
+        expect(result.current.status).toBe('success')
+        expect(result.current.data).toBe('first')
+        expect(asyncFunction).toHaveBeenCalledTimes(1)
+
+        unmountAgain()
+        await advance(500)
+
+        // Stale: shown while fetching again
+        const { result: stale } = renderHook(() =>
+          useAsync(asyncFunction, options),
+        )
+        expect(stale.current.data).toBe('first')
+        expect(stale.current.isRefetching).toBe(true)
+        expect(stale.current.loading).toBe(false)
+
+        await advance(0)
+        expect(stale.current.data).toBe('second')
+        expect(asyncFunction).toHaveBeenCalledTimes(2)
+      })
+
+      it('should remove the unused data after the cache time', async () => {
+        const asyncFunction = vi.fn().mockResolvedValue('data')
+        const options = {
+          cacheKey: 'user',
+          staleTime: Infinity,
+          cacheTime: 1000,
+        }
+        const { unmount } = renderHook(() => useAsync(asyncFunction, options))
+
+        await advance(0)
+        unmount()
+        await advance(999)
+
+        const { result, unmount: unmountAgain } = renderHook(() =>
+          useAsync(asyncFunction, options),
+        )
+        expect(result.current.data).toBe('data')
+
+        unmountAgain()
+        await advance(1000)
+
+        const { result: removed } = renderHook(() =>
+          useAsync(asyncFunction, options),
+        )
+        expect(removed.current.data).toBe(null)
+        expect(removed.current.loading).toBe(true)
+
+        await advance(0)
+        expect(removed.current.data).toBe('data')
+        expect(asyncFunction).toHaveBeenCalledTimes(2)
+      })
+
+      it('should remove the entries of the discarded renders', async () => {
+        // Created while rendering, without subscribing
+        const discarded = getAsyncEntry('user')
+        await advance(DEFAULT_CACHE_TIME)
+        expect(getAsyncEntry('user')).not.toBe(discarded)
+
+        const asyncFunction = vi.fn().mockResolvedValue('data')
+        const { result } = renderHook(() =>
+          useAsync(asyncFunction, { cacheKey: 'user' }),
+        )
+        await advance(DEFAULT_CACHE_TIME)
+        expect(result.current.data).toBe('data')
+        expect(asyncFunction).toHaveBeenCalledTimes(1)
+      })
+    })
+
+    it('should fetch the data again when invalidated', async () => {
+      const asyncFunction = vi
+        .fn()
+        .mockResolvedValueOnce('first')
+        .mockResolvedValueOnce('second')
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user', staleTime: Infinity }),
+      )
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('first')
+      })
+
+      act(() => {
+        asyncCache.invalidate('user')
+      })
+      expect(result.current.isRefetching).toBe(true)
+
+      await waitFor(() => {
+        expect(result.current.data).toBe('second')
+      })
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+    })
+
+    it('should fetch the invalidated data on the next use', async () => {
+      const asyncFunction = vi.fn().mockResolvedValue('data')
+      const options = { cacheKey: 'user', staleTime: Infinity }
+      const { unmount } = renderHook(() => useAsync(asyncFunction, options))
+
+      await waitFor(() => {
+        expect(asyncFunction).toHaveBeenCalledTimes(1)
+      })
+      unmount()
+
+      asyncCache.invalidate()
+      expect(asyncFunction).toHaveBeenCalledTimes(1)
+
+      const { result } = renderHook(() => useAsync(asyncFunction, options))
+
+      expect(result.current.isRefetching).toBe(true)
+      await waitFor(() => {
+        expect(result.current.status).toBe('success')
+      })
+      expect(asyncFunction).toHaveBeenCalledTimes(2)
+    })
+
+    it('should use the prefetched data', async () => {
+      const prefetched = vi.fn().mockResolvedValue('prefetched')
+      const asyncFunction = vi.fn().mockResolvedValue('data')
+
+      const responses = await Promise.all([
+        asyncCache.prefetch('user', prefetched),
+        asyncCache.prefetch('user', prefetched),
+      ])
+      expect(responses).toEqual(['prefetched', 'prefetched'])
+      expect(prefetched).toHaveBeenCalledTimes(1)
+
+      // Fresh data is not fetched again
+      await expect(
+        asyncCache.prefetch('user', prefetched, { staleTime: Infinity }),
+      ).resolves.toBe('prefetched')
+      expect(prefetched).toHaveBeenCalledTimes(1)
+
+      const { result } = renderHook(() =>
+        useAsync(asyncFunction, { cacheKey: 'user', staleTime: Infinity }),
+      )
+
+      expect(result.current.status).toBe('success')
+      expect(result.current.data).toBe('prefetched')
+      expect(asyncFunction).not.toHaveBeenCalled()
+    })
+  })
 })
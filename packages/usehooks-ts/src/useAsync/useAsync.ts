@@ -1,21 +1,42 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 
-/** The status of the async operation. */
-type Status = 'idle' | 'loading' | 'success' | 'error'
+import type { DependencyList } from 'react'
+import { useSyncExternalStore } from 'use-sync-external-store/shim'
 
-/** The useAsync return type. */
-type UseAsyncReturn<T> = {
+import type { AsyncEntry, AsyncStatus } from './asyncCache'
+import {
+  createAsyncEntry,
+  DEFAULT_CACHE_TIME,
+  fetchEntry,
+  getAsyncEntry,
+  isFresh,
+  resetEntry,
+} from './asyncCache'
+
+/**
+ * The useAsync return type.
+ * @template T - The type of data returned by the async function.
+ * @template Args - The types of the arguments of the async function.
+ */
+type UseAsyncReturn<T, Args extends unknown[]> = {
   /** The data returned from the async function. */
   data: T | null
   /** The error that occurred during the async function execution. */
   error: Error | null
   /** The current status of the async operation. */
-  status: Status
-  /** Whether the async operation is currently loading. */
+  status: AsyncStatus
+  /** Whether the async operation is currently loading, including its retries, without previous data to show. */
   loading: boolean
-  /** Function to execute the async operation. */
-  execute: () => Promise<void>
-  /** Function to reset the state to initial values. */
+  /** Whether the async operation is currently loading while showing the previous data, with the `keepPreviousData` option. */
+  isRefetching: boolean
+  /** The number of the current attempt, starting at 1 and incremented on each retry, 0 when idle. */
+  attempt: number
+  /**
+   * Function to execute the async operation with the given arguments, aborting the previous call if it's still running.
+   * It resolves with the returned data, or `undefined` if the call fails or is aborted.
+   */
+  execute: (...args: Args) => Promise<T | undefined>
+  /** Function to reset the state to initial values, aborting the running call, for every hook using the same cache key. */
   reset: () => void
 }
 
@@ -23,82 +44,255 @@ type UseAsyncReturn<T> = {
 type UseAsyncOptions = {
   /** Whether to execute the async function immediately on mount. */
   immediate?: boolean
+  /** The dependencies re-executing the async function when they change, like the ones of `useEffect()`. */
+  deps?: DependencyList
+  /**
+   * The number of retries after a failure, or a function deciding whether to retry from the number of failed attempts and the error.
+   * @default 0
+   */
+  retry?: number | ((attempt: number, error: Error) => boolean)
+  /**
+   * The delay before a retry in milliseconds, or a function returning it from the number of failed attempts and the error.
+   * Defaults to an exponential backoff with jitter, from 1 to 30 seconds.
+   */
+  retryDelay?: number | ((attempt: number, error: Error) => number)
+  /**
+   * Whether to keep the previous data while executing again, instead of clearing it, including the data of the previous `cacheKey` until the new key has data.
+   * @default false
+   */
+  keepPreviousData?: boolean
+  /** The key sharing the state, the running call and the cached data with every hook using it, which should identify the request and its arguments. */
+  cacheKey?: string
+  /**
+   * The time in milliseconds the cached data is fresh, and not fetched again by the automatic executions.
+   * @default 0
+   */
+  staleTime?: number
+  /**
+   * The time in milliseconds the cached data is kept once no hook uses it.
+   * @default 300000
+   */
+  cacheTime?: number
+}
+
+/**
+ * The useAsync options type of the functions with arguments, only executed by `execute()`.
+ */
+type UseManualAsyncOptions = Omit<UseAsyncOptions, 'immediate' | 'deps'> & {
+  /** Must be `false`, as the automatic executions don't have arguments to pass. */
+  immediate: false
+}
+
+/**
+ * Compares two dependency lists like React does, with `Object.is()` on each item.
+ * @param {DependencyList} [previous] - The previous dependencies.
+ * @param {DependencyList} next - The next dependencies.
+ * @returns {boolean} Whether the dependencies are the same.
+ * @example
+ * ```ts
+ * areDepsEqual([1, 'a'], [1, 'a']) // true
+ * ```
+ */
+function areDepsEqual(
+  previous: DependencyList | undefined,
+  next: DependencyList,
+): boolean {
+  return (
+    previous !== undefined &&
+    previous.length === next.length &&
+    previous.every((item, index) => Object.is(item, next[index]))
+  )
 }
 
+// Executed on mount and when the dependencies change, without arguments
+export function useAsync<T>(
+  asyncFunction: (signal: AbortSignal) => Promise<T>,
+  options?: UseAsyncOptions,
+): UseAsyncReturn<T, []>
+// Only executed with the arguments passed to `execute()`
+export function useAsync<T, Args extends unknown[]>(
+  asyncFunction: (signal: AbortSignal, ...args: Args) => Promise<T>,
+  options: UseManualAsyncOptions,
+): UseAsyncReturn<T, Args>
 /**
  * Custom hook that handles asynchronous operations with loading, error, and data states.
+ * Only the latest call updates the state: each call receives an `AbortSignal`, aborted when the function is executed again, reset or unmounted.
+ * The automatic executions, on mount and when the dependencies change, call the function without arguments, so a function with arguments requires `immediate: false` and no `deps`.
+ * Failed calls can be retried after a delay, with the `'retrying'` status, until the retries are exhausted or the call is aborted.
+ * With `keepPreviousData`, the data of the previous call stays available while executing again, even with a new `cacheKey`, reported by `isRefetching` instead of `loading`.
+ * With a `cacheKey`, the hooks using the same key share their state and their running call, and the data is cached, see `asyncCache` to invalidate or prefetch it.
  * @template T - The type of data returned by the async function.
- * @param {() => Promise<T>} asyncFunction - The async function to execute.
+ * @template Args - The types of the arguments of the async function, forwarded by `execute()`.
+ * @param {(signal: AbortSignal, ...args: Args) => Promise<T>} asyncFunction - The async function to execute, which should stop its work when the signal is aborted.
  * @param {UseAsyncOptions} [options] - Configuration options for the hook.
- * @param {boolean} [options.immediate=true] - Whether to execute the async function immediately on mount.
- * @returns {UseAsyncReturn<T>} An object containing the async operation state and control functions.
+ * @param {boolean} [options.immediate] - Whether to execute the async function immediately on mount (default `true`).
+ * @param {DependencyList} [options.deps] - The dependencies re-executing the async function when they change.
+ * @param {number | ((attempt: number, error: Error) => boolean)} [options.retry] - The number of retries, or a function deciding whether to retry (default `0`).
+ * @param {number | ((attempt: number, error: Error) => number)} [options.retryDelay] - The delay before a retry in milliseconds, or a function returning it (default exponential backoff with jitter).
+ * @param {boolean} [options.keepPreviousData] - Whether to keep the previous data while executing again (default `false`).
+ * @param {string} [options.cacheKey] - The key sharing the state, the running call and the cached data between the hooks.
+ * @param {number} [options.staleTime] - The time in milliseconds the cached data is fresh (default `0`).
+ * @param {number} [options.cacheTime] - The time in milliseconds the cached data is kept once no hook uses it (default 5 minutes).
+ * @returns {UseAsyncReturn<T, Args>} An object containing the async operation state and control functions.
  * @public
  * @see [Documentation](https://usehooks-ts.com/react-hook/use-async)
  * @example
  * ```tsx
- * const { data, loading, error, execute } = useAsync(() => fetchUser(id));
+ * const { data, loading, error, execute } = useAsync(signal => fetchUser(id, { signal }), { deps: [id] });
+ *
+ * // With arguments
+ * const { execute: save } = useAsync((signal, user: User) => saveUser(user, { signal }), { immediate: false });
+ * const savedUser = await save(user);
+ *
+ * // With retries
+ * const { data, status, attempt } = useAsync(fetchFeed, { retry: 3, retryDelay: attempt => 1000 * 2 ** attempt });
+ *
+ * // Showing the previous rows while refreshing
+ * const { data: rows, isRefetching } = useAsync(fetchRows, { deps: [page], keepPreviousData: true });
+ *
+ * // Sharing the request and its data between the components
+ * const { data: user } = useAsync(signal => fetchUser(id, { signal }), { cacheKey: `user:${id}`, staleTime: 60000 });
  * ```
  */
-export function useAsync<T>(
-  asyncFunction: () => Promise<T>,
-  options: UseAsyncOptions = {},
-): UseAsyncReturn<T> {
-  const { immediate = true } = options
+export function useAsync<T, Args extends unknown[] = []>(
+  asyncFunction: (signal: AbortSignal, ...args: Args) => Promise<T>,
+  options: UseAsyncOptions | UseManualAsyncOptions = {},
+): UseAsyncReturn<T, Args> {
+  const {
+    immediate = true,
+    deps,
+    retry = 0,
+    retryDelay,
+    keepPreviousData = false,
+    cacheKey,
+    staleTime = 0,
+    cacheTime = DEFAULT_CACHE_TIME,
+  } = options as UseAsyncOptions
 
-  const [status, setStatus] = useState<Status>('idle')
-  const [data, setData] = useState<T | null>(null)
-  const [error, setError] = useState<Error | null>(null)
+  // The state and the running call of the hook, or of every hook using the cache key
+  const [localEntry] = useState(() => createAsyncEntry<T>())
+  const entry = cacheKey === undefined ? localEntry : getAsyncEntry<T>(cacheKey)
+  const entryRef = useRef(entry)
+  entryRef.current = entry
 
-  // Track if component is mounted to prevent state updates after unmount
-  const isMountedRef = useRef(true)
+  const { status, result, error, attempt } = useSyncExternalStore(
+    entry.subscribe,
+    entry.getSnapshot,
+    entry.getSnapshot,
+  )
+
+  // The last result shown, kept while the entry of a new cache key has none
+  const shownResultRef = useRef<{
+    entry: AsyncEntry<T>
+    result: { data: T }
+  } | null>(null)
+  const previousResult =
+    keepPreviousData && shownResultRef.current?.entry !== entry
+      ? shownResultRef.current?.result
+      : undefined
+  const shownResult = result ?? previousResult ?? null
+
+  // Updated once committed, as a discarded render may read another entry
+  useEffect(() => {
+    if (result) {
+      shownResultRef.current = { entry, result }
+    }
+  }, [entry, result])
 
   // Store the latest async function to avoid stale closures
   const asyncFunctionRef = useRef(asyncFunction)
   asyncFunctionRef.current = asyncFunction
 
-  const execute = useCallback(async () => {
-    setStatus('loading')
-    setData(null)
-    setError(null)
+  // Read when executing, so the execute function stays the same
+  const executeOptionsRef = useRef({
+    retry,
+    retryDelay,
+    keepPreviousData,
+    cacheKey,
+    staleTime,
+    cacheTime,
+  })
+  executeOptionsRef.current = {
+    retry,
+    retryDelay,
+    keepPreviousData,
+    cacheKey,
+    staleTime,
+    cacheTime,
+  }
 
-    try {
-      const response = await asyncFunctionRef.current()
+  const execute = useCallback((...args: Args) => {
+    const { retry, retryDelay, keepPreviousData, cacheKey, cacheTime } =
+      executeOptionsRef.current
+    const isCached = cacheKey !== undefined
 
-      if (isMountedRef.current) {
-        setData(response)
-        setStatus('success')
-      }
-    } catch (err) {
-      if (isMountedRef.current) {
-        setError(err instanceof Error ? err : new Error(String(err)))
-        setStatus('error')
-      }
-    }
+    // The cached calls are joined instead of aborted, and keep the cached data while running
+    return fetchEntry(
+      entryRef.current,
+      signal => asyncFunctionRef.current(signal, ...args),
+      {
+        retry,
+        retryDelay,
+        keepPreviousData: keepPreviousData || isCached,
+        dedupe: isCached,
+        cacheTime,
+      },
+    )
   }, [])
 
   const reset = useCallback(() => {
-    setStatus('idle')
-    setData(null)
-    setError(null)
+    shownResultRef.current = null
+    resetEntry(entryRef.current)
   }, [])
 
-  useEffect(() => {
-    isMountedRef.current = true
+  // The automatic executions call the function without arguments,
+  // and skip the fresh cached data
+  const executeAutomatically = useCallback(() => {
+    const { cacheKey, staleTime } = executeOptionsRef.current
+    if (cacheKey !== undefined && isFresh(entryRef.current, staleTime)) {
+      return
+    }
+
+    // Only allowed by the overloads when the function has no arguments
+    void execute(...([] as unknown[] as Args))
+  }, [execute])
 
+  useEffect(() => {
     if (immediate) {
-      execute()
+      executeAutomatically()
     }
 
     return () => {
-      isMountedRef.current = false
+      // The cached calls keep running for the other hooks and the cache
+      if (cacheKey === undefined) {
+        entry.controller?.abort()
+      }
+    }
+  }, [executeAutomatically, immediate, cacheKey, entry])
+
+  // Compared with the previous dependencies rather than skipping the first run,
+  // as the mount is handled by the `immediate` option and runs twice in strict mode
+  const depsRef = useRef(deps)
+
+  useEffect(() => {
+    if (!deps || areDepsEqual(depsRef.current, deps)) {
+      return
     }
-  }, [execute, immediate])
+
+    depsRef.current = deps
+    executeAutomatically()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, deps ?? [])
+
+  const pending = status === 'loading' || status === 'retrying'
 
   return {
-    data,
+    data: shownResult ? shownResult.data : null,
     error,
     status,
-    loading: status === 'loading',
+    loading: pending && !shownResult,
+    isRefetching: pending && !!shownResult,
+    attempt,
     execute,
     reset,
   }
@@ -0,0 +1,28 @@
+import { useCookie } from './useCookie'
+
+export default function Component() {
+  const [theme, setTheme, removeTheme] = useCookie('theme', 'light', {
+    maxAge: 60 * 60 * 24 * 365,
+    sameSite: 'lax',
+  })
+
+  return (
+    <div>
+      <p>Theme: {theme}</p>
+      <button
+        onClick={() => {
+          setTheme(theme === 'light' ? 'dark' : 'light')
+        }}
+      >
+        Toggle
+      </button>
+      <button
+        onClick={() => {
+          removeTheme()
+        }}
+      >
+        Reset
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { createElement } from 'react'
+
+import { act, renderHook } from '@testing-library/react'
+import { hydrateRoot } from 'react-dom/client'
+import { renderToString } from 'react-dom/server'
+
+import { useCookie } from './useCookie'
+
+const clearCookies = () => {
+  for (const cookie of document.cookie.split(';')) {
+    const name = cookie.split('=')[0].trim()
+    document.cookie = `${name}=; Path=/; Max-Age=0`
+  }
+}
+
+describe('useCookie()', () => {
+  afterEach(() => {
+    clearCookies()
+    vitest.restoreAllMocks()
+  })
+
+  it('returns the initial value without cookie', () => {
+    const { result } = renderHook(() => useCookie('theme', 'light'))
+
+    expect(result.current[0]).toBe('light')
+  })
+
+  it('reads the stored cookie on the first render', () => {
+    document.cookie = `theme=${encodeURIComponent(JSON.stringify('dark'))}`
+
+    const { result } = renderHook(() => useCookie('theme', 'light'))
+
+    expect(result.current[0]).toBe('dark')
+  })
+
+  it('writes and removes the cookie', () => {
+    const { result } = renderHook(() => useCookie('theme', 'light'))
+
+    act(() => {
+      result.current[1]('dark')
+    })
+
+    expect(result.current[0]).toBe('dark')
+    expect(document.cookie).toContain(
+      `theme=${encodeURIComponent(JSON.stringify('dark'))}`,
+    )
+
+    act(() => {
+      result.current[2]()
+    })
+
+    expect(result.current[0]).toBe('light')
+    expect(document.cookie).not.toContain('theme=')
+  })
+
+  it('writes the cookie attributes', () => {
+    const setCookie = vitest.spyOn(document, 'cookie', 'set')
+    const { result } = renderHook(() =>
+      useCookie('theme', 'light', {
+        domain: 'localhost',
+        sameSite: 'lax',
+        secure: true,
+        maxAge: 3600,
+      }),
+    )
+
+    act(() => {
+      result.current[1]('dark')
+    })
+
+    expect(setCookie).toHaveBeenCalledWith(
+      'theme=%22dark%22; Path=/; Domain=localhost; Max-Age=3600; SameSite=lax; Secure',
+    )
+  })
+
+  it('uses custom serializer and deserializer', () => {
+    const { result } = renderHook(() =>
+      useCookie('count', 0, {
+        serializer: value => value.toString(16),
+        deserializer: value => parseInt(value, 16),
+      }),
+    )
+
+    act(() => {
+      result.current[1](255)
+    })
+
+    expect(document.cookie).toContain('count=ff')
+
+    const { result: other } = renderHook(() =>
+      useCookie('count', 0, {
+        deserializer: value => parseInt(value, 16),
+      }),
+    )
+
+    expect(other.current[0]).toBe(255)
+  })
+
+  it('updates the other hooks using the same cookie', () => {
+    const { result: A } = renderHook(() => useCookie('theme', 'light'))
+    const { result: B } = renderHook(() => useCookie('theme', 'light'))
+
+    act(() => {
+      A.current[1]('dark')
+    })
+
+    expect(B.current[0]).toBe('dark')
+  })
+  it('hydrates the server render with the same cookie', () => {
+    document.cookie = `theme=${encodeURIComponent(JSON.stringify('dark'))}`
+    const Theme = ({ cookieHeader }: { cookieHeader?: string }) =>
+      useCookie('theme', 'light', { cookieHeader })[0]
+
+    const container = document.createElement('div')
+    container.innerHTML = renderToString(
+      createElement(Theme, { cookieHeader: document.cookie }),
+    )
+
+    expect(container.textContent).toBe('dark')
+
+    // React logs the hydration mismatches
+    const error = vitest.spyOn(console, 'error')
+    act(() => {
+      hydrateRoot(container, createElement(Theme))
+    })
+
+    expect(container.textContent).toBe('dark')
+    expect(error).not.toHaveBeenCalled()
+  })
+})
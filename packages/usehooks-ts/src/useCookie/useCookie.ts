@@ -0,0 +1,201 @@
+import { useMemo } from 'react'
+
+import type { Dispatch, SetStateAction } from 'react'
+
+import type { StorageAdapter, StorageStatus } from '../useStorage'
+import { useStorage } from '../useStorage'
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
+  interface WindowEventMap {
+    'cookie-storage': CustomEvent
+  }
+}
+
+/** The attributes of the written cookies. */
+type CookieAttributes = {
+  /**
+   * The path where the cookie is sent.
+   * @default '/'
+   */
+  path?: string
+  /** The domain where the cookie is sent, the current host only by default. */
+  domain?: string
+  /** Whether the cookie is sent with cross-site requests. */
+  sameSite?: 'strict' | 'lax' | 'none'
+  /** If `true`, the cookie is only sent over HTTPS. */
+  secure?: boolean
+  /** The lifetime of the cookie in seconds, until the browser is closed by default. */
+  maxAge?: number
+}
+
+/**
+ * Options for customizing the cookie attributes and the behavior of serialization and deserialization.
+ * @template T - The type of the state to be stored in the cookie.
+ */
+type UseCookieOptions<T> = CookieAttributes & {
+  /** A function to serialize the value before storing it. */
+  serializer?: (value: T) => string
+  /** A function to deserialize the stored value. */
+  deserializer?: (value: string) => T
+  /**
+   * If `true` (default), the hook will initialize reading the cookie.
+   * If `false`, the first render returns the initial value, on the server and on the client, then the cookie is read once mounted.
+   * @default true
+   */
+  initializeWithValue?: boolean
+  /**
+   * The `Cookie` header of the request, read during server-side rendering so the first render already has the stored value.
+   * It is ignored on the client, which reads `document.cookie`.
+   */
+  cookieHeader?: string
+}
+
+const IS_SERVER = typeof window === 'undefined'
+
+/**
+ * Parses a cookie string, like `document.cookie` or a `Cookie` header.
+ * @param {string} cookies - The cookie string.
+ * @returns {Map<string, string>} The decoded values by name.
+ * @example
+ * ```ts
+ * parseCookies('theme=dark; lang=en') // Map { 'theme' => 'dark', 'lang' => 'en' }
+ * ```
+ */
+function parseCookies(cookies: string): Map<string, string> {
+  const parsed = new Map<string, string>()
+
+  for (const cookie of cookies.split(';')) {
+    const separatorIndex = cookie.indexOf('=')
+    if (separatorIndex === -1) {
+      continue
+    }
+
+    try {
+      const name = decodeURIComponent(cookie.slice(0, separatorIndex).trim())
+      // The first cookie wins, like the most specific path sent by the browser
+      if (!parsed.has(name)) {
+        parsed.set(
+          name,
+          decodeURIComponent(cookie.slice(separatorIndex + 1).trim()),
+        )
+      }
+    } catch {
+      // Ignore the cookies not written by this hook
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Serializes a cookie to be written to `document.cookie`.
+ * @param {string} name - The name of the cookie.
+ * @param {string} value - The raw value of the cookie.
+ * @param {CookieAttributes} attributes - The attributes of the cookie.
+ * @returns {string} The cookie string.
+ * @example
+ * ```ts
+ * serializeCookie('theme', 'dark', { path: '/', maxAge: 3600 }) // 'theme=dark; Path=/; Max-Age=3600'
+ * ```
+ */
+function serializeCookie(
+  name: string,
+  value: string,
+  attributes: CookieAttributes,
+): string {
+  const { path, domain, sameSite, secure, maxAge } = attributes
+  let cookie = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`
+
+  if (path) {
+    cookie += `; Path=${path}`
+  }
+  if (domain) {
+    cookie += `; Domain=${domain}`
+  }
+  if (maxAge !== undefined) {
+    cookie += `; Max-Age=${String(maxAge)}`
+  }
+  if (sameSite) {
+    cookie += `; SameSite=${sameSite}`
+  }
+  if (secure) {
+    cookie += '; Secure'
+  }
+
+  return cookie
+}
+
+/**
+ * Custom hook that persists state in a [cookie](https://developer.mozilla.org/en-US/docs/Web/HTTP/Cookies), which the server can read on the first request.
+ * @template T - The type of the state to be stored in the cookie.
+ * @param {string} key - The name of the cookie.
+ * @param {T | (() => T)} initialValue - The initial value of the state or a function that returns the initial value.
+ * @param {UseCookieOptions<T>} [options] - Options for customizing the cookie attributes and the behavior of serialization and deserialization (optional).
+ * @returns {[T, Dispatch<SetStateAction<T>>, () => void, StorageStatus]} A tuple containing the stored value, a function to set the value, a function to remove the cookie and the error of the last read or write.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-cookie)
+ * @example
+ * ```tsx
+ * // On the server, pass the `Cookie` header of the request
+ * const [theme, setTheme, removeTheme] = useCookie('theme', 'light', { cookieHeader, maxAge: 31536000 });
+ * ```
+ */
+export function useCookie<T>(
+  key: string,
+  initialValue: T | (() => T),
+  options: UseCookieOptions<T> = {},
+): [T, Dispatch<SetStateAction<T>>, () => void, StorageStatus] {
+  const {
+    path = '/',
+    domain,
+    sameSite,
+    secure,
+    maxAge,
+    cookieHeader,
+    ...storageOptions
+  } = options
+
+  const storage = useMemo<StorageAdapter>(() => {
+    const attributes = { path, domain, sameSite, secure, maxAge }
+
+    return {
+      getItem: name => parseCookies(document.cookie).get(name) ?? null,
+      setItem: (name, value) => {
+        document.cookie = serializeCookie(name, value, attributes)
+      },
+      removeItem: name => {
+        document.cookie = serializeCookie(name, '', {
+          ...attributes,
+          maxAge: 0,
+        })
+      },
+      shared: true,
+    }
+  }, [path, domain, sameSite, secure, maxAge])
+
+  // Read only, the server can't write the cookies through this hook
+  const serverStorage = useMemo<StorageAdapter | undefined>(() => {
+    // The client hydrates with the cookies it reads, the same the server received
+    if (!IS_SERVER) {
+      return storage
+    }
+    if (cookieHeader === undefined) {
+      return undefined
+    }
+
+    const cookies = parseCookies(cookieHeader)
+    return {
+      getItem: name => cookies.get(name) ?? null,
+      setItem: () => undefined,
+      removeItem: () => undefined,
+    }
+  }, [storage, cookieHeader])
+
+  return useStorage(key, initialValue, {
+    ...storageOptions,
+    storage,
+    serverStorage,
+    eventName: 'cookie-storage',
+  })
+}
@@ -0,0 +1,27 @@
+import { useIndexedDB } from './useIndexedDB'
+
+export default function Component() {
+  const [draft, setDraft, removeDraft, { loading }] = useIndexedDB('draft', '')
+
+  if (loading) {
+    return <p>Loading draft...</p>
+  }
+
+  return (
+    <div>
+      <textarea
+        value={draft}
+        onChange={event => {
+          setDraft(event.target.value)
+        }}
+      />
+      <button
+        onClick={() => {
+          removeDraft()
+        }}
+      >
+        Discard draft
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+import 'fake-indexeddb/auto'
+
+import { act, renderHook, waitFor } from '@testing-library/react'
+
+import { useIndexedDB } from './useIndexedDB'
+
+const runRawRequest = async (
+  mode: IDBTransactionMode,
+  request: (store: IDBObjectStore) => IDBRequest,
+) => {
+  const database = await new Promise<IDBDatabase>((resolve, reject) => {
+    const openRequest = indexedDB.open('usehooks-ts')
+    openRequest.onsuccess = () => {
+      resolve(openRequest.result)
+    }
+    openRequest.onerror = () => {
+      reject(new Error('Cannot open the database'))
+    }
+  })
+
+  return new Promise<unknown>((resolve, reject) => {
+    const storeRequest = request(
+      database.transaction('keyval', mode).objectStore('keyval'),
+    )
+    storeRequest.onsuccess = () => {
+      resolve(storeRequest.result)
+      database.close()
+    }
+    storeRequest.onerror = () => {
+      reject(new Error('Cannot run the request'))
+    }
+  })
+}
+
+const readRawValue = (key: string) =>
+  runRawRequest('readonly', store => store.get(key))
+
+describe('useIndexedDB()', () => {
+  it('is loading with the initial value until the first read', async () => {
+    const { result } = renderHook(() => useIndexedDB('loading', 'value'))
+
+    expect(result.current[0]).toBe('value')
+    expect(result.current[3].loading).toBe(true)
+
+    await waitFor(() => {
+      expect(result.current[3].loading).toBe(false)
+    })
+
+    expect(result.current[0]).toBe('value')
+  })
+
+  it('persists the value', async () => {
+    const { result } = renderHook(() => useIndexedDB('persist', 'value'))
+
+    await waitFor(() => {
+      expect(result.current[3].loading).toBe(false)
+    })
+
+    act(() => {
+      result.current[1]('edited')
+    })
+
+    expect(result.current[0]).toBe('edited')
+
+    await waitFor(async () => {
+      expect(await readRawValue('persist')).toBe(JSON.stringify('edited'))
+    })
+
+    const { result: other } = renderHook(() => useIndexedDB('persist', 'value'))
+
+    await waitFor(() => {
+      expect(other.current[0]).toBe('edited')
+    })
+  })
+
+  it('removes the value', async () => {
+    const { result } = renderHook(() => useIndexedDB('remove', 'value'))
+
+    act(() => {
+      result.current[1]('edited')
+    })
+
+    await waitFor(async () => {
+      expect(await readRawValue('remove')).toBe(JSON.stringify('edited'))
+    })
+
+    act(() => {
+      result.current[2]()
+    })
+
+    expect(result.current[0]).toBe('value')
+
+    await waitFor(async () => {
+      expect(await readRawValue('remove')).toBeUndefined()
+    })
+  })
+
+  it('updates the other hooks using the same key', async () => {
+    const { result: A } = renderHook(() => useIndexedDB('shared', 'initial'))
+    const { result: B } = renderHook(() => useIndexedDB('shared', 'initial'))
+
+    await waitFor(() => {
+      expect(B.current[3].loading).toBe(false)
+    })
+
+    act(() => {
+      A.current[1]('edited')
+    })
+
+    await waitFor(() => {
+      expect(B.current[0]).toBe('edited')
+    })
+  })
+
+  it('uses custom serializer and deserializer', async () => {
+    const serializer = (value: string) => value.toUpperCase()
+    const deserializer = (value: string) => value.toLowerCase()
+
+    const { result } = renderHook(() =>
+      useIndexedDB('custom', 'initial', { serializer, deserializer }),
+    )
+
+    act(() => {
+      result.current[1]('Edited')
+    })
+
+    await waitFor(async () => {
+      expect(await readRawValue('custom')).toBe('EDITED')
+    })
+  })
+
+  it('updates when another tab writes the same key', async () => {
+    const { result } = renderHook(() => useIndexedDB('tabs', 'initial'))
+
+    await waitFor(() => {
+      expect(result.current[3].loading).toBe(false)
+    })
+
+    await runRawRequest('readwrite', store =>
+      store.put(JSON.stringify('edited'), 'tabs'),
+    )
+    const otherTab = new BroadcastChannel(
+      'usehooks-ts:indexeddb:usehooks-ts/keyval',
+    )
+    otherTab.postMessage({ key: 'tabs' })
+    otherTab.close()
+
+    await waitFor(() => {
+      expect(result.current[0]).toBe('edited')
+    })
+  })
+  it('creates the stores of concurrent hooks in a new database', async () => {
+    const options = { databaseName: 'concurrent-stores' }
+    const { result: A } = renderHook(() =>
+      useIndexedDB('key', 'a', { ...options, storeName: 'a' }),
+    )
+    const { result: B } = renderHook(() =>
+      useIndexedDB('key', 'b', { ...options, storeName: 'b' }),
+    )
+
+    await waitFor(() => {
+      expect(A.current[3].loading).toBe(false)
+      expect(B.current[3].loading).toBe(false)
+    })
+    expect(A.current[3].error).toBe(null)
+    expect(B.current[3].error).toBe(null)
+
+    // A store added later upgrades the open connection
+    const { result: C } = renderHook(() =>
+      useIndexedDB('key', 'c', { ...options, storeName: 'c' }),
+    )
+
+    await waitFor(() => {
+      expect(C.current[3].loading).toBe(false)
+    })
+    expect(C.current[3].error).toBe(null)
+  })
+
+  it('waits for the other connections blocking an upgrade', async () => {
+    const warn = vitest.spyOn(console, 'warn').mockImplementation(vitest.fn())
+    // Opened without closing on `versionchange`
+    const otherConnection = await new Promise<IDBDatabase>(resolve => {
+      const openRequest = indexedDB.open('blocked-upgrade')
+      openRequest.onsuccess = () => {
+        resolve(openRequest.result)
+      }
+    })
+
+    const { result } = renderHook(() =>
+      useIndexedDB('key', 'initial', {
+        databaseName: 'blocked-upgrade',
+        storeName: 'other',
+      }),
+    )
+
+    await waitFor(() => {
+      expect(warn).toHaveBeenCalledWith(
+        'Upgrading IndexedDB database “blocked-upgrade” is blocked until its other connections are closed',
+      )
+    })
+    expect(result.current[3].loading).toBe(true)
+
+    otherConnection.close()
+
+    await waitFor(() => {
+      expect(result.current[3].loading).toBe(false)
+    })
+    expect(result.current[3].error).toBe(null)
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,245 @@
+import type { Dispatch, SetStateAction } from 'react'
+
+import type { StorageAdapter, StorageStatus } from '../useStorage'
+import { useStorage } from '../useStorage'
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
+  interface WindowEventMap {
+    'indexeddb-storage': CustomEvent
+  }
+}
+
+/**
+ * Options for customizing the database and the behavior of serialization and deserialization.
+ * @template T - The type of the state to be stored in IndexedDB.
+ */
+type UseIndexedDBOptions<T> = {
+  /** A function to serialize the value before storing it, `JSON.stringify` by default, as the values are stored as strings. */
+  serializer?: (value: T) => string
+  /** A function to deserialize the stored value. */
+  deserializer?: (value: string) => T
+  /**
+   * The name of the database.
+   * @default 'usehooks-ts'
+   */
+  databaseName?: string
+  /**
+   * The name of the object store, created if it doesn't exist yet.
+   * @default 'keyval'
+   */
+  storeName?: string
+}
+
+// Cached storages, one per object store
+const cachedStorages = new Map<string, StorageAdapter>()
+
+// The connection of each database, chained so the connections are opened one at a time
+const connections = new Map<string, Promise<IDBDatabase>>()
+// The connections closed to let another tab upgrade the database
+const closedDatabases = new WeakSet<IDBDatabase>()
+
+/**
+ * Wraps an IndexedDB request into a promise.
+ * @template T - The type of the request result.
+ * @param {IDBRequest<T>} request - The request to wait for.
+ * @returns {Promise<T>} A promise resolving with the request result.
+ * @example
+ * ```ts
+ * const value = await promisifyRequest(store.get(key))
+ * ```
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      resolve(request.result)
+    }
+    request.onerror = () => {
+      reject(request.error ?? new Error('IndexedDB request failed'))
+    }
+  })
+}
+
+/**
+ * Opens a connection to the database, creating the object store if the database is upgraded.
+ * @param {string} databaseName - The name of the database.
+ * @param {string} storeName - The name of the object store.
+ * @param {number} [version] - The version to upgrade the database to, the current one if omitted.
+ * @returns {Promise<IDBDatabase>} A promise resolving with the connection.
+ * @example
+ * ```ts
+ * const database = await openDatabase('usehooks-ts', 'keyval', 2)
+ * ```
+ */
+function openDatabase(
+  databaseName: string,
+  storeName: string,
+  version?: number,
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(databaseName, version)
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName)
+      }
+    }
+    // Another connection, like an older version of the page, doesn't close on `versionchange`
+    request.onblocked = () => {
+      console.warn(
+        `Upgrading IndexedDB database “${databaseName}” is blocked until its other connections are closed`,
+      )
+    }
+    request.onsuccess = () => {
+      resolve(request.result)
+    }
+    request.onerror = () => {
+      reject(request.error ?? new Error('IndexedDB request failed'))
+    }
+  })
+}
+
+/**
+ * Gets a connection to the database holding the object store, upgrading the database to create the store if needed.
+ * The connections of a database are opened one at a time, so concurrent upgrades can't lose a store.
+ * @param {string} databaseName - The name of the database.
+ * @param {string} storeName - The name of the object store.
+ * @returns {Promise<IDBDatabase>} A promise resolving with the connection.
+ * @example
+ * ```ts
+ * const database = await getDatabase('usehooks-ts', 'keyval')
+ * ```
+ */
+function getDatabase(
+  databaseName: string,
+  storeName: string,
+): Promise<IDBDatabase> {
+  const previous = connections.get(databaseName)
+
+  const connection = (previous ?? Promise.resolve(null))
+    // A failed connection is opened again
+    .catch(() => null)
+    .then(async current => {
+      let database =
+        current && !closedDatabases.has(current)
+          ? current
+          : await openDatabase(databaseName, storeName)
+
+      // The object store can only be created while upgrading the database
+      if (!database.objectStoreNames.contains(storeName)) {
+        database.close()
+        database = await openDatabase(
+          databaseName,
+          storeName,
+          database.version + 1,
+        )
+      }
+
+      // Let other tabs upgrade the database, it will be reopened on next use
+      database.onversionchange = () => {
+        closedDatabases.add(database)
+        database.close()
+      }
+      return database
+    })
+
+  connections.set(databaseName, connection)
+  return connection
+}
+
+/**
+ * Gets the storage backed by the given IndexedDB object store.
+ * Writes are broadcast to the other tabs, which notify their hooks through the `indexeddb-storage` event.
+ * @param {string} databaseName - The name of the database.
+ * @param {string} storeName - The name of the object store.
+ * @returns {StorageAdapter} The storage adapter.
+ * @example
+ * ```ts
+ * const storage = getIndexedDBStorage('usehooks-ts', 'keyval')
+ * ```
+ */
+function getIndexedDBStorage(
+  databaseName: string,
+  storeName: string,
+): StorageAdapter {
+  const id = `${databaseName}/${storeName}`
+  const cachedStorage = cachedStorages.get(id)
+  if (cachedStorage) {
+    return cachedStorage
+  }
+
+  // Opened lazily, so nothing happens on the server
+  let channel: BroadcastChannel | undefined
+
+  const getChannel = () => {
+    if (!channel && typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(`usehooks-ts:indexeddb:${id}`)
+      channel.onmessage = (event: MessageEvent<{ key: string }>) => {
+        window.dispatchEvent(
+          new StorageEvent('indexeddb-storage', { key: event.data.key }),
+        )
+      }
+    }
+    return channel
+  }
+
+  const getStore = async (mode: IDBTransactionMode) => {
+    getChannel()
+    const database = await getDatabase(databaseName, storeName)
+    return database.transaction(storeName, mode).objectStore(storeName)
+  }
+
+  const write = async (
+    key: string,
+    request: (store: IDBObjectStore) => IDBRequest,
+  ) => {
+    const store = await getStore('readwrite')
+    await promisifyRequest(request(store))
+    getChannel()?.postMessage({ key })
+  }
+
+  const storage: StorageAdapter = {
+    getItem: async key => {
+      const store = await getStore('readonly')
+      const value = await promisifyRequest<unknown>(store.get(key))
+      // The hook stores serialized strings, any other value is read as missing
+      return typeof value === 'string' ? value : null
+    },
+    setItem: (key, value) => write(key, store => store.put(value, key)),
+    removeItem: key => write(key, store => store.delete(key)),
+  }
+
+  cachedStorages.set(id, storage)
+  return storage
+}
+
+/**
+ * Custom hook that uses the [`IndexedDB API`](https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API) to persist state across page reloads, without the size limit of local storage.
+ * The values are serialized to strings like with `useLocalStorage()`, so only the size limit is removed: pass `taggedJSON` to keep dates, maps, sets or big integers, and the values not stored as strings by this hook are read as missing.
+ * @template T - The type of the state to be stored in IndexedDB.
+ * @param {string} key - The key under which the value will be stored in IndexedDB.
+ * @param {T | (() => T)} initialValue - The initial value of the state or a function that returns the initial value.
+ * @param {UseIndexedDBOptions<T>} [options] - Options for customizing the database and the behavior of serialization and deserialization (optional).
+ * @returns {[T, Dispatch<SetStateAction<T>>, () => void, StorageStatus]} A tuple containing the stored value, a function to set the value, a function to remove the key from storage and the loading status of the first read.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-indexed-db)
+ * @example
+ * ```tsx
+ * const [drafts, setDrafts, removeDrafts, { loading }] = useIndexedDB('drafts', []);
+ * // `drafts` holds the initial value until the stored one has been read, while `loading` is `true`.
+ * ```
+ */
+export function useIndexedDB<T>(
+  key: string,
+  initialValue: T | (() => T),
+  options: UseIndexedDBOptions<T> = {},
+): [T, Dispatch<SetStateAction<T>>, () => void, StorageStatus] {
+  const { databaseName = 'usehooks-ts', storeName = 'keyval' } = options
+
+  return useStorage(key, initialValue, {
+    serializer: options.serializer,
+    deserializer: options.deserializer,
+    storage: getIndexedDBStorage(databaseName, storeName),
+    eventName: 'indexeddb-storage',
+  })
+}
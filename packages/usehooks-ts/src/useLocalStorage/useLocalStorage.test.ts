@@ -1,6 +1,7 @@
-import { act, renderHook } from '@testing-library/react'
+import { act, renderHook, waitFor } from '@testing-library/react'
 
 import { mockStorage } from '../../tests/mocks'
+import { taggedJSON } from '../useStorage'
 import { useLocalStorage } from './useLocalStorage'
 
 mockStorage('localStorage')
@@ -192,6 +193,79 @@ describe('useLocalStorage()', () => {
     expect(renderCount).toBe(2)
   })
 
+  it('[Event] Every hook reading the same value gets the same object', () => {
+    window.localStorage.setItem('user', JSON.stringify({ name: 'Ada' }))
+    const { result: A } = renderHook(() => useLocalStorage('user', {}))
+    const { result: B } = renderHook(() => useLocalStorage('user', {}))
+
+    expect(A.current[0]).toEqual({ name: 'Ada' })
+    expect(A.current[0]).toBe(B.current[0])
+
+    act(() => {
+      const setState = A.current[1]
+      setState({ name: 'Grace' })
+    })
+
+    expect(B.current[0]).toEqual({ name: 'Grace' })
+    expect(A.current[0]).toBe(B.current[0])
+  })
+
+  it('[Event] Writing the same value does not render the other hooks', () => {
+    let renderCount = 0
+    const { result: A } = renderHook(() => useLocalStorage('user', {}))
+    renderHook(() => {
+      renderCount++
+      return useLocalStorage('user', {})
+    })
+
+    act(() => {
+      const setState = A.current[1]
+      setState({ name: 'Ada' })
+    })
+
+    expect(renderCount).toBe(2)
+
+    act(() => {
+      const setState = A.current[1]
+      setState({ name: 'Ada' })
+    })
+
+    expect(renderCount).toBe(2)
+  })
+
+  it('renders the initial value during hydration, then the stored value', () => {
+    window.localStorage.setItem('key', JSON.stringify('stored'))
+    const values: string[] = []
+
+    const { result } = renderHook(
+      () => {
+        const state = useLocalStorage('key', 'initial')
+        values.push(state[0])
+        return state
+      },
+      { hydrate: true },
+    )
+
+    expect(values[0]).toBe('initial')
+    expect(result.current[0]).toBe('stored')
+  })
+
+  it('renders the initial value first without initializeWithValue', () => {
+    window.localStorage.setItem('key', JSON.stringify('stored'))
+    const values: string[] = []
+
+    const { result } = renderHook(() => {
+      const state = useLocalStorage('key', 'initial', {
+        initializeWithValue: false,
+      })
+      values.push(state[0])
+      return state
+    })
+
+    expect(values[0]).toBe('initial')
+    expect(result.current[0]).toBe('stored')
+  })
+
   it('setValue is referentially stable', () => {
     const { result } = renderHook(() => useLocalStorage('count', 1))
 
@@ -233,6 +307,37 @@ describe('useLocalStorage()', () => {
     expect(localStorage.getItem('key')).toBe('NEWVALUE')
   })
 
+  it('should round-trip dates, maps, sets, big integers and undefined with taggedJSON', () => {
+    type Value = {
+      date: Date
+      map: Map<string, Set<number>>
+      big: bigint
+      missing: string | undefined
+    }
+    const value: Value = {
+      date: new Date(2020, 1, 1),
+      map: new Map([['a', new Set([1, 2])]]),
+      big: BigInt('9007199254740993'),
+      missing: undefined,
+    }
+
+    const { result } = renderHook(() =>
+      useLocalStorage<Value | null>('key', null, taggedJSON),
+    )
+
+    act(() => {
+      result.current[1](value)
+    })
+
+    const { result: other } = renderHook(() =>
+      useLocalStorage<Value | null>('key', null, taggedJSON),
+    )
+
+    expect(other.current[0]).toEqual(value)
+    expect(other.current[0]?.date).toBeInstanceOf(Date)
+    expect(other.current[0]).toHaveProperty('missing', undefined)
+  })
+
   it('should handle undefined values with custom deserializer', () => {
     const serializer = (value: number | undefined) => String(value)
     const deserializer = (value: string) =>
@@ -257,4 +362,531 @@ describe('useLocalStorage()', () => {
 
     expect(localStorage.getItem('key')).toBe('42')
   })
+
+  it('stores the value in a version envelope', () => {
+    const { result } = renderHook(() =>
+      useLocalStorage('key', 'value', { version: 2 }),
+    )
+
+    act(() => {
+      result.current[1]('edited')
+    })
+
+    expect(JSON.parse(window.localStorage.getItem('key') ?? '')).toEqual({
+      __version: 2,
+      __value: JSON.stringify('edited'),
+    })
+
+    const { result: other } = renderHook(() =>
+      useLocalStorage('key', 'value', { version: 2 }),
+    )
+
+    expect(other.current[0]).toBe('edited')
+  })
+
+  it('migrates values stored with an older version', () => {
+    window.localStorage.setItem(
+      'user',
+      JSON.stringify({ name: 'Ada Lovelace' }),
+    )
+    const migrate = vitest.fn((oldValue: unknown) => {
+      const [firstName, lastName] = (oldValue as { name: string }).name.split(
+        ' ',
+      )
+      return { firstName, lastName }
+    })
+
+    const { result } = renderHook(() =>
+      useLocalStorage(
+        'user',
+        { firstName: '', lastName: '' },
+        { version: 1, migrate },
+      ),
+    )
+
+    expect(migrate).toHaveBeenCalledWith({ name: 'Ada Lovelace' }, 0)
+    expect(result.current[0]).toEqual({
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+    })
+  })
+
+  it('migrates the stored value once for the hooks sharing the options', () => {
+    window.localStorage.setItem('counter', JSON.stringify({ count: 1 }))
+    // Mutates the value it receives
+    const migrate = vitest.fn((oldValue: unknown) => {
+      const counter = oldValue as { count: number }
+      counter.count += 1
+      return counter
+    })
+
+    const { result: A } = renderHook(() =>
+      useLocalStorage('counter', { count: 0 }, { version: 1, migrate }),
+    )
+    const { result: B } = renderHook(() =>
+      useLocalStorage('counter', { count: 0 }, { version: 1, migrate }),
+    )
+
+    expect(migrate).toHaveBeenCalledTimes(1)
+    expect(A.current[0]).toEqual({ count: 2 })
+    expect(B.current[0]).toBe(A.current[0])
+  })
+
+  it('[Event] Every hook parsing the same value with a schema gets the same object', () => {
+    window.localStorage.setItem('user', JSON.stringify({ name: 'Ada' }))
+    const schema = {
+      parse: (value: unknown) => ({ ...(value as { name: string }) }),
+    }
+
+    const { result: A } = renderHook(() =>
+      useLocalStorage('user', { name: '' }, { schema }),
+    )
+    const { result: B } = renderHook(() =>
+      useLocalStorage('user', { name: '' }, { schema }),
+    )
+
+    expect(A.current[0]).toEqual({ name: 'Ada' })
+    expect(B.current[0]).toBe(A.current[0])
+  })
+
+  it('falls back to the initial value for outdated values without migrate', () => {
+    const warn = vitest.spyOn(console, 'warn').mockImplementation(vitest.fn())
+    window.localStorage.setItem('key', JSON.stringify('stale'))
+
+    const { result } = renderHook(() =>
+      useLocalStorage('key', 'value', { version: 1 }),
+    )
+
+    expect(result.current[0]).toBe('value')
+    expect(result.current[3].error?.kind).toBe('validation')
+    expect(warn).toHaveBeenCalledTimes(1)
+    warn.mockRestore()
+  })
+
+  it('reports the values stored with a newer version', () => {
+    window.localStorage.setItem(
+      'key',
+      JSON.stringify({ __value: '"future"', __version: 3 }),
+    )
+    const onError = vitest.fn()
+
+    const { result, rerender } = renderHook(() =>
+      useLocalStorage('key', 'value', { version: 2, onError }),
+    )
+    rerender()
+
+    expect(result.current[0]).toBe('value')
+    expect(result.current[3].error?.kind).toBe('validation')
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError).toHaveBeenCalledWith({
+      kind: 'validation',
+      key: 'key',
+      cause: new Error('Stored value has version 3, expected version 2'),
+    })
+  })
+
+  it('reports the failed migrations', () => {
+    window.localStorage.setItem('key', JSON.stringify('stale'))
+    const error = new Error('Cannot migrate')
+    const migrate = vitest.fn(() => {
+      throw error
+    })
+    const onError = vitest.fn()
+
+    const { result, rerender } = renderHook(() =>
+      useLocalStorage('key', 'value', { version: 1, migrate, onError }),
+    )
+    rerender()
+
+    expect(result.current[0]).toBe('value')
+    expect(migrate).toHaveBeenCalledTimes(1)
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError).toHaveBeenCalledWith({
+      kind: 'validation',
+      key: 'key',
+      cause: error,
+    })
+  })
+
+  it('falls back to the initial value when the validate guard fails', () => {
+    window.localStorage.setItem('count', JSON.stringify('not a number'))
+    const onError = vitest.fn()
+
+    const { result } = renderHook(() =>
+      useLocalStorage('count', 0, {
+        validate: (value): value is number => typeof value === 'number',
+        onError,
+      }),
+    )
+
+    expect(result.current[0]).toBe(0)
+    expect(onError).toHaveBeenCalled()
+    expect(window.localStorage.getItem('count')).toBe(
+      JSON.stringify('not a number'),
+    )
+  })
+
+  it('parses the stored value with a schema and removes invalid values', () => {
+    window.localStorage.setItem('count', JSON.stringify('not a number'))
+    const error = new Error('Expected a number')
+    const schema = {
+      parse: (value: unknown) => {
+        if (typeof value !== 'number') {
+          throw error
+        }
+        return value
+      },
+    }
+    const onError = vitest.fn()
+
+    const { result } = renderHook(() =>
+      useLocalStorage('count', 0, { schema, onError, removeInvalid: true }),
+    )
+
+    expect(result.current[0]).toBe(0)
+    expect(onError).toHaveBeenCalledWith({
+      kind: 'validation',
+      key: 'count',
+      cause: error,
+    })
+    expect(window.localStorage.getItem('count')).toBeNull()
+
+    act(() => {
+      result.current[1](42)
+    })
+
+    const { result: other } = renderHook(() =>
+      useLocalStorage('count', 0, { schema }),
+    )
+
+    expect(other.current[0]).toBe(42)
+  })
+
+  it('treats expired values as missing and removes them', () => {
+    window.localStorage.setItem(
+      'key',
+      JSON.stringify({
+        __value: JSON.stringify('stored'),
+        __expiresAt: Date.now() - 1,
+      }),
+    )
+
+    const { result } = renderHook(() => useLocalStorage('key', 'value'))
+
+    expect(result.current[0]).toBe('value')
+    expect(window.localStorage.getItem('key')).toBeNull()
+  })
+
+  it('expires the value after the ttl while mounted', () => {
+    vitest.useFakeTimers()
+    const { result } = renderHook(() =>
+      useLocalStorage('key', 'value', { ttl: 1000 }),
+    )
+
+    act(() => {
+      result.current[1]('edited')
+    })
+
+    expect(result.current[0]).toBe('edited')
+
+    act(() => {
+      vitest.advanceTimersByTime(999)
+    })
+
+    expect(result.current[0]).toBe('edited')
+
+    act(() => {
+      vitest.advanceTimersByTime(1)
+    })
+
+    expect(result.current[0]).toBe('value')
+    expect(window.localStorage.getItem('key')).toBeNull()
+    vitest.useRealTimers()
+  })
+
+  it('expires the value at the expiresAt date', () => {
+    vitest.useFakeTimers()
+    const expiresAt = new Date(Date.now() + 5000)
+    const { result } = renderHook(() =>
+      useLocalStorage('key', 'value', { expiresAt }),
+    )
+
+    act(() => {
+      result.current[1]('edited')
+    })
+
+    expect(
+      JSON.parse(window.localStorage.getItem('key') ?? '') as unknown,
+    ).toEqual({
+      __value: JSON.stringify('edited'),
+      __expiresAt: expiresAt.getTime(),
+    })
+
+    act(() => {
+      vitest.advanceTimersByTime(5000)
+    })
+
+    expect(result.current[0]).toBe('value')
+    vitest.useRealTimers()
+  })
+  it('reports quota errors and keeps the previous value', () => {
+    const quotaError = new DOMException('Full', 'QuotaExceededError')
+    const setItem = vitest
+      .spyOn(window.localStorage, 'setItem')
+      .mockImplementation(() => {
+        throw quotaError
+      })
+    const onError = vitest.fn()
+    const { result } = renderHook(() =>
+      useLocalStorage('key', 'value', { onError }),
+    )
+
+    act(() => {
+      result.current[1]('edited')
+    })
+
+    expect(result.current[0]).toBe('value')
+    expect(result.current[3].error).toEqual({
+      kind: 'quota',
+      key: 'key',
+      cause: quotaError,
+    })
+    expect(onError).toHaveBeenCalledWith(result.current[3].error)
+
+    setItem.mockRestore()
+
+    act(() => {
+      result.current[1]('edited')
+    })
+
+    expect(result.current[0]).toBe('edited')
+    expect(result.current[3].error).toBeNull()
+  })
+
+  it('reports serialization errors', () => {
+    const onError = vitest.fn()
+    const { result } = renderHook(() =>
+      useLocalStorage<bigint>('key', BigInt(0), {
+        onError,
+        deserializer: value => BigInt(value),
+      }),
+    )
+
+    act(() => {
+      result.current[1](BigInt(1))
+    })
+
+    expect(result.current[3].error?.kind).toBe('serialization')
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  it('only reads the key again on a message broadcast by another tab', async () => {
+    window.localStorage.setItem('key', JSON.stringify(2))
+    const { result } = renderHook(() =>
+      useLocalStorage('key', 0, { sync: 'broadcast' }),
+    )
+    const notified = new Promise(resolve => {
+      window.addEventListener('local-storage', resolve, { once: true })
+    })
+    const otherTab = new BroadcastChannel('usehooks-ts:local-storage')
+
+    // Sent before the newer write, the shared storage already holds
+    otherTab.postMessage({ key: 'key', value: JSON.stringify(1) })
+    await act(() => notified)
+    otherTab.close()
+
+    expect(window.localStorage.getItem('key')).toBe(JSON.stringify(2))
+    expect(result.current[0]).toBe(2)
+  })
+
+  it('reports corrupt JSON as a serialization error', () => {
+    window.localStorage.setItem('key', '{')
+    const onError = vitest.fn()
+    const { result } = renderHook(() =>
+      useLocalStorage('key', 'initial', { onError }),
+    )
+
+    expect(result.current[0]).toBe('initial')
+    expect(result.current[3].error?.kind).toBe('serialization')
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  it('evicts the least recently written keys of the namespace when full', () => {
+    const setItem = window.localStorage.setItem.bind(window.localStorage)
+    const spy = vitest
+      .spyOn(window.localStorage, 'setItem')
+      .mockImplementation((key, value) => {
+        // Only room for two drafts
+        if (key === 'drafts:c' && window.localStorage.getItem('drafts:a')) {
+          throw new DOMException('Full', 'QuotaExceededError')
+        }
+        setItem(key, value)
+      })
+    const eviction = { strategy: 'lru', prefix: 'drafts:' } as const
+    const { result: A } = renderHook(() =>
+      useLocalStorage('drafts:a', '', { eviction }),
+    )
+    const { result: B } = renderHook(() =>
+      useLocalStorage('drafts:b', '', { eviction }),
+    )
+    const { result: C } = renderHook(() =>
+      useLocalStorage('drafts:c', '', { eviction }),
+    )
+
+    act(() => {
+      A.current[1]('a')
+      B.current[1]('b')
+      C.current[1]('c')
+    })
+
+    expect(C.current[0]).toBe('c')
+    expect(C.current[3].error).toBeNull()
+    expect(A.current[0]).toBe('')
+    expect(window.localStorage.getItem('drafts:a')).toBeNull()
+    expect(B.current[0]).toBe('b')
+    spy.mockRestore()
+  })
+  describe('with a write delay', () => {
+    beforeEach(() => {
+      vitest.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vitest.useRealTimers()
+    })
+
+    it('updates the state immediately and writes the last value once', () => {
+      const setItem = vitest.spyOn(window.localStorage, 'setItem')
+      const { result: A } = renderHook(() =>
+        useLocalStorage('text', '', { writeDelay: 500 }),
+      )
+      const { result: B } = renderHook(() => useLocalStorage('text', ''))
+
+      act(() => {
+        A.current[1]('a')
+      })
+      act(() => {
+        A.current[1](text => `${text}b`)
+      })
+
+      expect(A.current[0]).toBe('ab')
+      expect(B.current[0]).toBe('')
+      expect(setItem).not.toHaveBeenCalled()
+
+      act(() => {
+        vitest.advanceTimersByTime(500)
+      })
+
+      expect(setItem).toHaveBeenCalledTimes(1)
+      expect(window.localStorage.getItem('text')).toBe(JSON.stringify('ab'))
+      expect(A.current[0]).toBe('ab')
+      expect(B.current[0]).toBe('ab')
+    })
+
+    it('writes the delayed value when the page is hidden', () => {
+      const { result } = renderHook(() =>
+        useLocalStorage('text', '', { writeDelay: 500 }),
+      )
+
+      act(() => {
+        result.current[1]('draft')
+      })
+      act(() => {
+        window.dispatchEvent(new Event('pagehide'))
+      })
+
+      expect(window.localStorage.getItem('text')).toBe(JSON.stringify('draft'))
+    })
+
+    it('writes the delayed value on unmount', () => {
+      const { result, unmount } = renderHook(() =>
+        useLocalStorage('text', '', { writeDelay: 500 }),
+      )
+
+      act(() => {
+        result.current[1]('draft')
+      })
+      unmount()
+
+      expect(window.localStorage.getItem('text')).toBe(JSON.stringify('draft'))
+    })
+
+    it('drops the delayed value when the key is removed', () => {
+      const { result } = renderHook(() =>
+        useLocalStorage('text', '', { writeDelay: 500 }),
+      )
+
+      act(() => {
+        result.current[1]('draft')
+      })
+      act(() => {
+        result.current[2]()
+      })
+      act(() => {
+        vitest.advanceTimersByTime(500)
+      })
+
+      expect(result.current[0]).toBe('')
+      expect(window.localStorage.getItem('text')).toBeNull()
+    })
+  })
+
+  describe('with encryption', () => {
+    const generateKey = () =>
+      crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ])
+
+    it('stores the encrypted value and decrypts it on read', async () => {
+      const encryption = { key: await generateKey() }
+      const { result } = renderHook(() =>
+        useLocalStorage('secret', 'initial', { encryption }),
+      )
+
+      act(() => {
+        result.current[1]('edited')
+      })
+
+      expect(result.current[0]).toBe('edited')
+
+      await waitFor(() => {
+        expect(window.localStorage.getItem('secret')).not.toBeNull()
+      })
+      expect(window.localStorage.getItem('secret')).not.toContain('edited')
+
+      // Read by a new store, as the hooks of the same key share the decrypted value
+      window.localStorage.setItem(
+        'copy',
+        window.localStorage.getItem('secret') ?? '',
+      )
+      const { result: other } = renderHook(() =>
+        useLocalStorage('copy', 'initial', { encryption }),
+      )
+
+      expect(other.current[0]).toBe('initial')
+      expect(other.current[3].loading).toBe(true)
+
+      await waitFor(() => {
+        expect(other.current[0]).toBe('edited')
+      })
+      expect(other.current[3].loading).toBe(false)
+    })
+
+    it('falls back to the initial value when the value cannot be decrypted', async () => {
+      window.localStorage.setItem('secret', JSON.stringify('plain'))
+      const onError = vitest.fn()
+      const encryption = { key: generateKey() }
+      const { result } = renderHook(() =>
+        useLocalStorage('secret', 'initial', { encryption, onError }),
+      )
+
+      await waitFor(() => {
+        expect(result.current[3].loading).toBe(false)
+      })
+      expect(result.current[0]).toBe('initial')
+      expect(result.current[3].error?.kind).toBe('encryption')
+      expect(onError).toHaveBeenCalled()
+    })
+  })
 })
@@ -1,9 +1,17 @@
-import { useCallback, useEffect, useState } from 'react'
-
 import type { Dispatch, SetStateAction } from 'react'
 
-import { useEventCallback } from '../useEventCallback'
-import { useEventListener } from '../useEventListener'
+import type { StorageStatus } from '../useStorage'
+import { useStorage } from '../useStorage'
+import { localStorageAdapter } from '../useStorage/adapters'
+import type { EncryptionOptions } from '../useStorage/encryption'
+import type {
+  ExpirationOptions,
+  VersioningOptions,
+} from '../useStorage/envelope'
+import type { ErrorOptions } from '../useStorage/errors'
+import type { EvictionOptions } from '../useStorage/eviction'
+import type { ValidationOptions } from '../useStorage/validation'
+import type { WriteDelayOptions } from '../useStorage/writeDelay'
 
 declare global {
   // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
@@ -16,19 +24,29 @@ declare global {
  * Options for customizing the behavior of serialization and deserialization.
  * @template T - The type of the state to be stored in local storage.
  */
-type UseLocalStorageOptions<T> = {
-  /** A function to serialize the value before storing it. */
-  serializer?: (value: T) => string
-  /** A function to deserialize the stored value. */
-  deserializer?: (value: string) => T
-  /**
-   * If `true` (default), the hook will initialize reading the local storage. In SSR, you should set it to `false`, returning the initial value initially.
-   * @default true
-   */
-  initializeWithValue?: boolean
-}
-
-const IS_SERVER = typeof window === 'undefined'
+type UseLocalStorageOptions<T> = VersioningOptions<T> &
+  ValidationOptions<T> &
+  ExpirationOptions &
+  ErrorOptions &
+  EvictionOptions &
+  EncryptionOptions &
+  WriteDelayOptions & {
+    /** A function to serialize the value before storing it. */
+    serializer?: (value: T) => string
+    /** A function to deserialize the stored value. */
+    deserializer?: (value: string) => T
+    /**
+     * If `true` (default), the hook will initialize reading the local storage.
+     * If `false`, the first client render returns the initial value too, then the stored value is read once mounted.
+     * The server and the hydration always render the initial value.
+     * @default true
+     */
+    initializeWithValue?: boolean
+    /**
+     * If `'broadcast'`, the other tabs of the same origin are also notified of the writes through a [`BroadcastChannel`](https://developer.mozilla.org/en-US/docs/Web/API/BroadcastChannel), reading the key again, in addition to the `storage` event.
+     */
+    sync?: 'broadcast'
+  }
 
 /**
  * Custom hook that uses the [`localStorage API`](https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage) to persist state across page reloads.
@@ -36,7 +54,7 @@ const IS_SERVER = typeof window === 'undefined'
  * @param {string} key - The key under which the value will be stored in local storage.
  * @param {T | (() => T)} initialValue - The initial value of the state or a function that returns the initial value.
  * @param {UseLocalStorageOptions<T>} [options] - Options for customizing the behavior of serialization and deserialization (optional).
- * @returns {[T, Dispatch<SetStateAction<T>>, () => void]} A tuple containing the stored value, a function to set the value and a function to remove the key from storage.
+ * @returns {[T, Dispatch<SetStateAction<T>>, () => void, StorageStatus]} A tuple containing the stored value, a function to set the value, a function to remove the key from storage and the error of the last read or write.
  * @public
  * @see [Documentation](https://usehooks-ts.com/react-hook/use-local-storage)
  * @example
@@ -49,143 +67,10 @@ export function useLocalStorage<T>(
   key: string,
   initialValue: T | (() => T),
   options: UseLocalStorageOptions<T> = {},
-): [T, Dispatch<SetStateAction<T>>, () => void] {
-  const { initializeWithValue = true } = options
-
-  const serializer = useCallback<(value: T) => string>(
-    value => {
-      if (options.serializer) {
-        return options.serializer(value)
-      }
-
-      return JSON.stringify(value)
-    },
-    [options],
-  )
-
-  const deserializer = useCallback<(value: string) => T>(
-    value => {
-      if (options.deserializer) {
-        return options.deserializer(value)
-      }
-      // Support 'undefined' as a value
-      if (value === 'undefined') {
-        return undefined as unknown as T
-      }
-
-      const defaultValue =
-        initialValue instanceof Function ? initialValue() : initialValue
-
-      let parsed: unknown
-      try {
-        parsed = JSON.parse(value)
-      } catch (error) {
-        console.error('Error parsing JSON:', error)
-        return defaultValue // Return initialValue if parsing fails
-      }
-
-      return parsed as T
-    },
-    [options, initialValue],
-  )
-
-  // Get from local storage then
-  // parse stored json or return initialValue
-  const readValue = useCallback((): T => {
-    const initialValueToUse =
-      initialValue instanceof Function ? initialValue() : initialValue
-
-    // Prevent build error "window is undefined" but keep working
-    if (IS_SERVER) {
-      return initialValueToUse
-    }
-
-    try {
-      const raw = window.localStorage.getItem(key)
-      return raw ? deserializer(raw) : initialValueToUse
-    } catch (error) {
-      console.warn(`Error reading localStorage key “${key}”:`, error)
-      return initialValueToUse
-    }
-  }, [initialValue, key, deserializer])
-
-  const [storedValue, setStoredValue] = useState(() => {
-    if (initializeWithValue) {
-      return readValue()
-    }
-
-    return initialValue instanceof Function ? initialValue() : initialValue
-  })
-
-  // Return a wrapped version of useState's setter function that ...
-  // ... persists the new value to localStorage.
-  const setValue: Dispatch<SetStateAction<T>> = useEventCallback(value => {
-    // Prevent build error "window is undefined" but keeps working
-    if (IS_SERVER) {
-      console.warn(
-        `Tried setting localStorage key “${key}” even though environment is not a client`,
-      )
-    }
-
-    try {
-      // Allow value to be a function so we have the same API as useState
-      const newValue = value instanceof Function ? value(readValue()) : value
-
-      // Save to local storage
-      window.localStorage.setItem(key, serializer(newValue))
-
-      // Save state
-      setStoredValue(newValue)
-
-      // We dispatch a custom event so every similar useLocalStorage hook is notified
-      window.dispatchEvent(new StorageEvent('local-storage', { key }))
-    } catch (error) {
-      console.warn(`Error setting localStorage key “${key}”:`, error)
-    }
-  })
-
-  const removeValue = useEventCallback(() => {
-    // Prevent build error "window is undefined" but keeps working
-    if (IS_SERVER) {
-      console.warn(
-        `Tried removing localStorage key “${key}” even though environment is not a client`,
-      )
-    }
-
-    const defaultValue =
-      initialValue instanceof Function ? initialValue() : initialValue
-
-    // Remove the key from local storage
-    window.localStorage.removeItem(key)
-
-    // Save state with default value
-    setStoredValue(defaultValue)
-
-    // We dispatch a custom event so every similar useLocalStorage hook is notified
-    window.dispatchEvent(new StorageEvent('local-storage', { key }))
+): [T, Dispatch<SetStateAction<T>>, () => void, StorageStatus] {
+  return useStorage(key, initialValue, {
+    ...options,
+    storage: localStorageAdapter,
+    eventName: 'local-storage',
   })
-
-  useEffect(() => {
-    setStoredValue(readValue())
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [key])
-
-  const handleStorageChange = useCallback(
-    (event: StorageEvent | CustomEvent) => {
-      if ((event as StorageEvent).key && (event as StorageEvent).key !== key) {
-        return
-      }
-      setStoredValue(readValue())
-    },
-    [key, readValue],
-  )
-
-  // this only works for other documents, not the current one
-  useEventListener('storage', handleStorageChange)
-
-  // this is a custom event, triggered in writeValueToLocalStorage
-  // See: useLocalStorage()
-  useEventListener('local-storage', handleStorageChange)
-
-  return [storedValue, setValue, removeValue]
 }
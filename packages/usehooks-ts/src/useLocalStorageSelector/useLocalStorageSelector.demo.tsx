@@ -0,0 +1,45 @@
+import { useLocalStorage } from '../useLocalStorage'
+import { useLocalStorageSelector } from './useLocalStorageSelector'
+
+type Settings = { theme: 'dark' | 'light'; fontSize: number }
+
+function ThemeLabel() {
+  // Doesn't re-render when the font size changes
+  const theme = useLocalStorageSelector(
+    'settings',
+    (settings: Settings | null) => settings?.theme ?? 'light',
+  )
+
+  return <p>Theme: {theme}</p>
+}
+
+export default function Component() {
+  const [settings, setSettings] = useLocalStorage<Settings>('settings', {
+    theme: 'light',
+    fontSize: 16,
+  })
+
+  return (
+    <div>
+      <ThemeLabel />
+      <p>Font size: {settings.fontSize}px</p>
+      <button
+        onClick={() => {
+          setSettings(value => ({ ...value, fontSize: value.fontSize + 1 }))
+        }}
+      >
+        Increase font size
+      </button>
+      <button
+        onClick={() => {
+          setSettings(value => ({
+            ...value,
+            theme: value.theme === 'light' ? 'dark' : 'light',
+          }))
+        }}
+      >
+        Toggle theme
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { act, renderHook } from '@testing-library/react'
+
+import { useLocalStorage } from '../useLocalStorage'
+import { useLocalStorageSelector } from './useLocalStorageSelector'
+
+type Settings = { theme: string; fontSize: number; tags: string[] }
+
+const initialSettings: Settings = { theme: 'light', fontSize: 16, tags: [] }
+
+describe('useLocalStorageSelector()', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+  })
+
+  it('passes null to the selector when the key is not present', () => {
+    const { result } = renderHook(() =>
+      useLocalStorageSelector(
+        'settings',
+        (settings: Settings | null) => settings?.theme ?? 'default',
+      ),
+    )
+
+    expect(result.current).toBe('default')
+  })
+
+  it('only re-renders when the selected slice changes', () => {
+    let renderCount = 0
+    const { result: settings } = renderHook(() =>
+      useLocalStorage('settings', initialSettings),
+    )
+    const { result } = renderHook(() => {
+      renderCount++
+      return useLocalStorageSelector(
+        'settings',
+        (value: Settings | null) => value?.theme,
+      )
+    })
+
+    expect(result.current).toBeUndefined()
+
+    act(() => {
+      settings.current[1](value => ({ ...value, theme: 'dark' }))
+    })
+
+    expect(result.current).toBe('dark')
+    expect(renderCount).toBe(2)
+
+    act(() => {
+      settings.current[1](value => ({ ...value, fontSize: 18 }))
+    })
+
+    expect(renderCount).toBe(2)
+  })
+
+  it('compares the slices with the equality function', () => {
+    let renderCount = 0
+    const { result: settings } = renderHook(() =>
+      useLocalStorage('settings', initialSettings),
+    )
+    const { result } = renderHook(() => {
+      renderCount++
+      return useLocalStorageSelector(
+        'settings',
+        (value: Settings | null) => value?.tags ?? [],
+        {
+          equalityFn: (left, right) => left.join() === right.join(),
+        },
+      )
+    })
+
+    act(() => {
+      settings.current[1](value => ({ ...value, tags: ['a'] }))
+    })
+
+    expect(result.current).toEqual(['a'])
+    expect(renderCount).toBe(2)
+
+    // A new array with the same tags
+    act(() => {
+      settings.current[1](value => ({ ...value, tags: ['a'], fontSize: 12 }))
+    })
+
+    expect(renderCount).toBe(2)
+  })
+})
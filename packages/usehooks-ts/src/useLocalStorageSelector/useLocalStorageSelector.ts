@@ -0,0 +1,72 @@
+import { useSyncExternalStoreWithSelector } from 'use-sync-external-store/shim/with-selector'
+
+import { localStorageAdapter } from '../useStorage/adapters'
+import type { VersioningOptions } from '../useStorage/envelope'
+import type { StorageSnapshot } from '../useStorage/store'
+import { getStore } from '../useStorage/store'
+import { readSnapshotValue } from '../useStorage/useReadStorage'
+import type { ValidationOptions } from '../useStorage/validation'
+
+/**
+ * Options for reading the stored value and comparing the selected slices.
+ * @template T - The type of the stored value.
+ * @template S - The type of the selected slice.
+ */
+type UseLocalStorageSelectorOptions<T, S> = VersioningOptions<T> &
+  Pick<ValidationOptions<T>, 'validate' | 'schema'> & {
+    /** A function to determine if the slice has changed. Defaults to a function that checks if the slice is strictly equal to the previous slice. */
+    equalityFn?: (left: S, right: S) => boolean
+    /** Custom deserializer function to convert the stored string value to the desired type (optional). */
+    deserializer?: (value: string) => T
+  }
+
+const IS_SERVER = typeof window === 'undefined'
+
+// Rendered on the server and during hydration, where nothing is stored
+const SERVER_SNAPSHOT: StorageSnapshot = { raw: null, loading: false }
+
+const getServerSnapshot = () => SERVER_SNAPSHOT
+
+/**
+ * Custom hook that selects a slice of a value stored in [`localStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage), only re-rendering when the slice changes.
+ * @template T - The type of the stored value.
+ * @template S - The type of the selected slice.
+ * @param {string} key - The key associated with the value in local storage.
+ * @param {(value: T | null) => S} selector - A function returning the slice of the stored value, which is `null` if the key is not present or an error occurs.
+ * @param {UseLocalStorageSelectorOptions<T, S>} [options] - Options for reading the value and comparing the slices (optional).
+ * @returns {S} The selected slice.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-local-storage-selector)
+ * @example
+ * ```tsx
+ * // Only re-renders when the theme changes, not the other settings
+ * const theme = useLocalStorageSelector('settings', (settings: Settings | null) => settings?.theme ?? 'light');
+ * ```
+ */
+export function useLocalStorageSelector<T, S>(
+  key: string,
+  selector: (value: T | null) => S,
+  options: UseLocalStorageSelectorOptions<T, S> = {},
+): S {
+  const { equalityFn, version, migrate, validate, schema } = options
+
+  // Every hook reading the key shares the same snapshot, see useLocalStorage()
+  const store = getStore(localStorageAdapter, key, 'local-storage')
+
+  return useSyncExternalStoreWithSelector(
+    store.subscribe,
+    IS_SERVER ? getServerSnapshot : store.getSnapshot,
+    getServerSnapshot,
+    snapshot => {
+      const { value } = readSnapshotValue(snapshot, key, {
+        deserializer: options.deserializer,
+        version,
+        migrate,
+        validate,
+        schema,
+      })
+      return selector(value ?? null)
+    },
+    equalityFn,
+  )
+}
@@ -0,0 +1,62 @@
+import { usePersistentReducer } from './usePersistentReducer'
+
+type Todo = { id: number; text: string; done: boolean }
+
+type Action =
+  | { type: 'add'; text: string }
+  | { type: 'toggle'; id: number }
+  | { type: 'clear' }
+
+function todosReducer(todos: Todo[], action: Action): Todo[] {
+  switch (action.type) {
+    case 'add':
+      return [...todos, { id: Date.now(), text: action.text, done: false }]
+    case 'toggle':
+      return todos.map(todo =>
+        todo.id === action.id ? { ...todo, done: !todo.done } : todo,
+      )
+    case 'clear':
+      return []
+  }
+}
+
+export default function Component() {
+  const [todos, dispatch] = usePersistentReducer(todosReducer, [], {
+    key: 'todos',
+  })
+
+  return (
+    <div>
+      <ul>
+        {todos.map(todo => (
+          <li key={todo.id}>
+            <label>
+              <input
+                type="checkbox"
+                checked={todo.done}
+                onChange={() => {
+                  dispatch({ type: 'toggle', id: todo.id })
+                }}
+              />
+              {todo.text}
+            </label>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={() => {
+          dispatch({ type: 'add', text: `Todo #${String(todos.length + 1)}` })
+        }}
+      >
+        Add todo
+      </button>
+      <button
+        onClick={() => {
+          dispatch({ type: 'clear' })
+        }}
+      >
+        Clear
+      </button>
+    </div>
+  )
+}
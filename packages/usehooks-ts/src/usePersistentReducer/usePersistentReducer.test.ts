@@ -0,0 +1,81 @@
+import { act, renderHook } from '@testing-library/react'
+
+import { usePersistentReducer } from './usePersistentReducer'
+
+type Action = { type: 'increment' } | { type: 'set'; value: number }
+
+const reducer = (state: number, action: Action) => {
+  switch (action.type) {
+    case 'increment':
+      return state + 1
+    case 'set':
+      return action.value
+  }
+}
+
+describe('usePersistentReducer()', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+    window.sessionStorage.clear()
+  })
+
+  it('returns the initial state while nothing is stored', () => {
+    const { result } = renderHook(() =>
+      usePersistentReducer(reducer, 0, { key: 'count' }),
+    )
+
+    expect(result.current[0]).toBe(0)
+    expect(window.localStorage.getItem('count')).toBeNull()
+  })
+
+  it('persists the state returned by the reducer', () => {
+    const { result } = renderHook(() =>
+      usePersistentReducer(reducer, 0, { key: 'count', version: 1 }),
+    )
+
+    act(() => {
+      result.current[1]({ type: 'increment' })
+      result.current[1]({ type: 'increment' })
+    })
+
+    expect(result.current[0]).toBe(2)
+    expect(window.localStorage.getItem('count')).toBe(
+      JSON.stringify({ __value: '2', __version: 1 }),
+    )
+  })
+
+  it('syncs the state across instances', () => {
+    const { result: A } = renderHook(() =>
+      usePersistentReducer(reducer, 0, { key: 'count' }),
+    )
+    const { result: B } = renderHook(() =>
+      usePersistentReducer(reducer, 0, { key: 'count' }),
+    )
+
+    act(() => {
+      A.current[1]({ type: 'set', value: 5 })
+    })
+    act(() => {
+      B.current[1]({ type: 'increment' })
+    })
+
+    expect(A.current[0]).toBe(6)
+    expect(B.current[0]).toBe(6)
+  })
+
+  it('stores the state in the session storage', () => {
+    const { result } = renderHook(() =>
+      usePersistentReducer(reducer, 0, {
+        key: 'count',
+        storage: 'sessionStorage',
+      }),
+    )
+
+    act(() => {
+      result.current[1]({ type: 'increment' })
+    })
+
+    expect(window.sessionStorage.getItem('count')).toBe('1')
+    expect(window.localStorage.getItem('count')).toBeNull()
+  })
+})
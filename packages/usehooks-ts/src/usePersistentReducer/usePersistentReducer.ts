@@ -0,0 +1,72 @@
+import type { Dispatch } from 'react'
+
+import { useEventCallback } from '../useEventCallback'
+import type { StorageStatus } from '../useStorage'
+import { useStorage } from '../useStorage'
+import { STORAGE_ADAPTERS, STORAGE_EVENTS } from '../useStorage/adapters'
+import type { VersioningOptions } from '../useStorage/envelope'
+import type { ErrorOptions } from '../useStorage/errors'
+import type { ValidationOptions } from '../useStorage/validation'
+
+/**
+ * Options for choosing where the state is stored and customizing the behavior of serialization and deserialization.
+ * @template S - The type of the state.
+ */
+type UsePersistentReducerOptions<S> = VersioningOptions<S> &
+  ValidationOptions<S> &
+  ErrorOptions & {
+    /** The key under which the state is stored. */
+    key: string
+    /**
+     * The storage holding the state.
+     * @default 'localStorage'
+     */
+    storage?: keyof typeof STORAGE_ADAPTERS
+    /** A function to serialize the state before storing it. */
+    serializer?: (value: S) => string
+    /** A function to deserialize the stored state. */
+    deserializer?: (value: string) => S
+    /**
+     * If `'broadcast'`, the new states are sent to the other tabs of the same origin through a [`BroadcastChannel`](https://developer.mozilla.org/en-US/docs/Web/API/BroadcastChannel) instead of relying on the `storage` event.
+     */
+    sync?: 'broadcast'
+  }
+
+/**
+ * Custom hook that manages state with a reducer, like [`useReducer`](https://react.dev/reference/react/useReducer), and persists it in [`localStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage) or [`sessionStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/sessionStorage).
+ * @template S - The type of the state.
+ * @template A - The type of the actions.
+ * @param {(state: S, action: A) => S} reducer - The function returning the next state from the current state and an action.
+ * @param {S | (() => S)} initialState - The state used while nothing is stored, or a function that returns it.
+ * @param {UsePersistentReducerOptions<S>} options - The key and the storage of the state, and options for customizing the behavior of serialization and deserialization.
+ * @returns {[S, Dispatch<A>, StorageStatus]} A tuple containing the state, a function to dispatch an action and the status of the storage.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-persistent-reducer)
+ * @example
+ * ```tsx
+ * const [cart, dispatch] = usePersistentReducer(cartReducer, { items: [] }, { key: 'cart', version: 2 });
+ *
+ * dispatch({ type: 'add', item });
+ * ```
+ */
+export function usePersistentReducer<S, A>(
+  reducer: (state: S, action: A) => S,
+  initialState: S | (() => S),
+  options: UsePersistentReducerOptions<S>,
+): [S, Dispatch<A>, StorageStatus] {
+  const { key, storage = 'localStorage', ...storageOptions } = options
+
+  const [state, setState, , status] = useStorage(key, initialState, {
+    ...storageOptions,
+    storage: STORAGE_ADAPTERS[storage],
+    eventName: STORAGE_EVENTS[storage],
+  })
+
+  // Reduce the stored state rather than the rendered one, so the actions
+  // dispatched by other instances or before the next render are not lost
+  const dispatch = useEventCallback((action: A) => {
+    setState(currentState => reducer(currentState, action))
+  })
+
+  return [state, dispatch, status]
+}
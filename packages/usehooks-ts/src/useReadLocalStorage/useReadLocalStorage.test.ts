@@ -1,5 +1,7 @@
-import { renderHook } from '@testing-library/react'
+import { act, renderHook } from '@testing-library/react'
 
+import { useLocalStorage } from '../useLocalStorage'
+import { taggedJSON } from '../useStorage'
 import { useReadLocalStorage } from './useReadLocalStorage'
 
 describe('useReadLocalStorage()', () => {
@@ -8,4 +10,117 @@ describe('useReadLocalStorage()', () => {
 
     expect(result.current).toBe(null)
   })
+
+  it('should return null during hydration', () => {
+    window.localStorage.setItem('test', JSON.stringify('stored'))
+    const values: unknown[] = []
+
+    const { result } = renderHook(
+      () => {
+        const value = useReadLocalStorage('test')
+        values.push(value)
+        return value
+      },
+      { hydrate: true },
+    )
+
+    expect(values[0]).toBeNull()
+    expect(result.current).toBe('stored')
+    window.localStorage.removeItem('test')
+  })
+
+  it('should return undefined first without initializeWithValue', () => {
+    window.localStorage.setItem('test', JSON.stringify('stored'))
+    const values: unknown[] = []
+
+    const { result } = renderHook(() => {
+      const value = useReadLocalStorage('test', { initializeWithValue: false })
+      values.push(value)
+      return value
+    })
+
+    expect(values[0]).toBeUndefined()
+    expect(result.current).toBe('stored')
+    window.localStorage.removeItem('test')
+  })
+
+  it('should migrate values stored with an older version', () => {
+    window.localStorage.setItem(
+      'test',
+      JSON.stringify({ __version: 1, __value: JSON.stringify(21) }),
+    )
+
+    const { result } = renderHook(() =>
+      useReadLocalStorage<number>('test', {
+        version: 2,
+        migrate: oldValue => (oldValue as number) * 2,
+      }),
+    )
+
+    expect(result.current).toBe(42)
+    window.localStorage.removeItem('test')
+  })
+
+  it('should return null when the stored value is invalid', () => {
+    window.localStorage.setItem('test', JSON.stringify('not a number'))
+    const onError = vi.fn()
+
+    const { result } = renderHook(() =>
+      useReadLocalStorage('test', {
+        validate: (value): value is number => typeof value === 'number',
+        onError,
+        removeInvalid: true,
+      }),
+    )
+
+    expect(result.current).toBeNull()
+    expect(onError).toHaveBeenCalled()
+    expect(window.localStorage.getItem('test')).toBeNull()
+  })
+
+  it('should report corrupt JSON as a serialization error', () => {
+    window.localStorage.setItem('test', '{')
+    const onError = vi.fn()
+
+    const { result } = renderHook(() =>
+      useReadLocalStorage('test', { onError }),
+    )
+
+    expect(result.current).toBeNull()
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'test', kind: 'serialization' }),
+    )
+    window.localStorage.removeItem('test')
+  })
+
+  it('should read the values written with taggedJSON', () => {
+    window.localStorage.setItem(
+      'test',
+      taggedJSON.serializer(new Set([new Date(0)])),
+    )
+
+    const { result } = renderHook(() =>
+      useReadLocalStorage<Set<Date>>('test', taggedJSON),
+    )
+
+    expect(result.current).toEqual(new Set([new Date(0)]))
+    window.localStorage.removeItem('test')
+  })
+
+  it('should read the value written by useLocalStorage in the same render', () => {
+    const { result } = renderHook(() => ({
+      read: useReadLocalStorage<number>('count'),
+      state: useLocalStorage('count', 0),
+    }))
+
+    expect(result.current.read).toBeNull()
+
+    act(() => {
+      result.current.state[1](1)
+    })
+
+    expect(result.current.read).toBe(1)
+    expect(result.current.state[0]).toBe(1)
+    window.localStorage.removeItem('count')
+  })
 })
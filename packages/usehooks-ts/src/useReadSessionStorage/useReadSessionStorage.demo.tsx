@@ -0,0 +1,8 @@
+import { useReadSessionStorage } from './useReadSessionStorage'
+
+export default function Component() {
+  // Assuming a value was set in sessionStorage with this key
+  const step = useReadSessionStorage<number>('checkout-step')
+
+  return <p>Checkout step: {step ?? 'not started'}</p>
+}
@@ -0,0 +1,60 @@
+import { act, renderHook } from '@testing-library/react'
+
+import { useSessionStorage } from '../useSessionStorage'
+import { useReadSessionStorage } from './useReadSessionStorage'
+
+describe('useReadSessionStorage()', () => {
+  beforeEach(() => {
+    window.sessionStorage.clear()
+    window.localStorage.clear()
+  })
+
+  it('should return null when the key is not present', () => {
+    window.localStorage.setItem('test', JSON.stringify('local'))
+
+    const { result } = renderHook(() => useReadSessionStorage('test'))
+
+    expect(result.current).toBeNull()
+  })
+
+  it('should read the value written by useSessionStorage', () => {
+    const { result } = renderHook(() => ({
+      read: useReadSessionStorage<number>('count'),
+      state: useSessionStorage('count', 0),
+    }))
+
+    act(() => {
+      result.current.state[1](1)
+    })
+
+    expect(result.current.read).toBe(1)
+  })
+
+  it('should update when another document writes the key', () => {
+    const { result } = renderHook(() => useReadSessionStorage<string>('test'))
+
+    act(() => {
+      window.sessionStorage.setItem('test', JSON.stringify('edited'))
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'test',
+          storageArea: window.sessionStorage,
+        }),
+      )
+    })
+
+    expect(result.current).toBe('edited')
+  })
+
+  it('should use the custom deserializer', () => {
+    window.sessionStorage.setItem('date', '2020-02-01')
+
+    const { result } = renderHook(() =>
+      useReadSessionStorage('date', {
+        deserializer: value => new Date(value),
+      }),
+    )
+
+    expect(result.current).toEqual(new Date('2020-02-01'))
+  })
+})
@@ -0,0 +1,51 @@
+import type { VersioningOptions } from '../useStorage/envelope'
+import type { ErrorOptions } from '../useStorage/errors'
+import { useReadStorage } from '../useStorage/useReadStorage'
+import type { ValidationOptions } from '../useStorage/validation'
+
+/**
+ * Represents the type for the options available when reading from session storage.
+ * @template T - The type of the stored value.
+ */
+type Options<
+  T,
+  InitializeWithValue extends boolean | undefined,
+> = VersioningOptions<T> &
+  ValidationOptions<T> &
+  ErrorOptions & {
+    /** Custom deserializer function to convert the stored string value to the desired type (optional). */
+    deserializer?: (value: string) => T
+    /** If `true` (default), the hook will initialize reading the session storage. If `false`, the first render returns `undefined`, on the server and on the client, then the stored value is read once mounted. */
+    initializeWithValue: InitializeWithValue
+  }
+
+// SSR version
+export function useReadSessionStorage<T>(
+  key: string,
+  options: Options<T, false>,
+): T | null | undefined
+// CSR version
+export function useReadSessionStorage<T>(
+  key: string,
+  options?: Partial<Options<T, true>>,
+): T | null
+/**
+ * Custom hook that reads a value from [`sessionStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/sessionStorage), closely related to [`useSessionStorage()`](https://usehooks-ts.com/react-hook/use-session-storage).
+ * @template T - The type of the stored value.
+ * @param {string} key - The key associated with the value in session storage.
+ * @param {Options<T>} [options] - Additional options for reading the value (optional).
+ * @returns {T | null | undefined} The stored value, or null if the key is not present or an error occurs.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-read-session-storage)
+ * @example
+ * ```tsx
+ * const storedData = useReadSessionStorage('myKey');
+ * // Access the stored data from session storage.
+ * ```
+ */
+export function useReadSessionStorage<T>(
+  key: string,
+  options: Partial<Options<T, boolean>> = {},
+): T | null | undefined {
+  return useReadStorage(key, options, 'sessionStorage')
+}
@@ -1,4 +1,4 @@
-import { act, renderHook } from '@testing-library/react'
+import { act, renderHook, waitFor } from '@testing-library/react'
 
 import { mockStorage } from '../../tests/mocks'
 import { useSessionStorage } from './useSessionStorage'
@@ -248,4 +248,48 @@ describe('useSessionStorage()', () => {
 
     expect(sessionStorage.getItem('key')).toBe('42')
   })
+
+  it('applies the writes broadcast by other tabs', async () => {
+    const { result } = renderHook(() =>
+      useSessionStorage('key', 'value', { sync: 'broadcast' }),
+    )
+    const otherTab = new BroadcastChannel('usehooks-ts:session-storage')
+
+    otherTab.postMessage({ key: 'key', value: JSON.stringify('edited') })
+
+    await waitFor(() => {
+      expect(result.current[0]).toBe('edited')
+    })
+    expect(window.sessionStorage.getItem('key')).toBe(JSON.stringify('edited'))
+
+    otherTab.postMessage({ key: 'key', value: null })
+
+    await waitFor(() => {
+      expect(result.current[0]).toBe('value')
+    })
+    expect(window.sessionStorage.getItem('key')).toBeNull()
+    otherTab.close()
+  })
+
+  it('broadcasts the writes to other tabs', async () => {
+    const { result } = renderHook(() =>
+      useSessionStorage('key', 'value', { sync: 'broadcast' }),
+    )
+    const otherTab = new BroadcastChannel('usehooks-ts:session-storage')
+    const onMessage = vitest.fn()
+    otherTab.onmessage = onMessage
+
+    act(() => {
+      result.current[1]('edited')
+    })
+
+    await waitFor(() => {
+      expect(onMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { key: 'key', value: JSON.stringify('edited') },
+        }),
+      )
+    })
+    otherTab.close()
+  })
 })
@@ -0,0 +1,39 @@
+import type { StorageAdapter } from './useStorage'
+
+// Read lazily so the `window` object is only accessed on the client,
+// and shared so every hook of a key uses the same external store
+
+/** The adapter of `window.localStorage`. */
+export const localStorageAdapter: StorageAdapter = {
+  getItem: key => window.localStorage.getItem(key),
+  setItem: (key, value) => {
+    window.localStorage.setItem(key, value)
+  },
+  removeItem: key => {
+    window.localStorage.removeItem(key)
+  },
+  shared: true,
+}
+
+/** The adapter of `window.sessionStorage`. */
+export const sessionStorageAdapter: StorageAdapter = {
+  getItem: key => window.sessionStorage.getItem(key),
+  setItem: (key, value) => {
+    window.sessionStorage.setItem(key, value)
+  },
+  removeItem: key => {
+    window.sessionStorage.removeItem(key)
+  },
+}
+
+/** The web storages, with the event notifying their hooks. */
+export const STORAGE_EVENTS = {
+  localStorage: 'local-storage',
+  sessionStorage: 'session-storage',
+} as const
+
+/** The adapters of the web storages. */
+export const STORAGE_ADAPTERS = {
+  localStorage: localStorageAdapter,
+  sessionStorage: sessionStorageAdapter,
+}
@@ -0,0 +1,110 @@
+import type { StorageAdapter } from './useStorage'
+
+/** A write made in another tab, `null` meaning the key was removed. */
+type BroadcastMessage = {
+  /** The written key. */
+  key: string
+  /** The raw written value. */
+  value: string | null
+}
+
+/** A channel shared by every hook of the tab using the same storage and event. */
+type BroadcastSubscription = {
+  /** The channel, which never receives the messages it posts itself. */
+  channel: BroadcastChannel
+  /** The storage where the received writes are applied, unless it's shared by the tabs. */
+  storage: StorageAdapter
+  /** The number of hooks using the channel. */
+  count: number
+}
+
+const subscriptions = new Map<string, BroadcastSubscription>()
+
+/**
+ * Subscribes to the writes made in other tabs, applying them to the storage of this tab and notifying its hooks through the given event.
+ * The writes to a `shared` storage are already visible, so the hooks only read the key again, and a late message can't overwrite a newer value.
+ * The channel is named after the event, so only one storage of the tab can be synced per event.
+ * @param {keyof WindowEventMap} eventName - The event notifying the hooks, which also names the channel.
+ * @param {StorageAdapter} storage - The storage where the writes are applied.
+ * @returns {(() => void) | undefined} A function to unsubscribe, `undefined` if `BroadcastChannel` isn't supported.
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeToBroadcast('session-storage', storage)
+ * ```
+ */
+export function subscribeToBroadcast(
+  eventName: keyof WindowEventMap,
+  storage: StorageAdapter,
+): (() => void) | undefined {
+  if (typeof BroadcastChannel === 'undefined') {
+    return
+  }
+
+  let subscription = subscriptions.get(eventName)
+
+  // The other tabs can't tell which storage a write was made to
+  if (subscription && subscription.storage !== storage) {
+    console.error(
+      `Another storage is already synced through the “${eventName}” event, pass a distinct \`eventName\` to each storage using \`sync: 'broadcast'\``,
+    )
+    return
+  }
+
+  if (!subscription) {
+    const channel = new BroadcastChannel(`usehooks-ts:${eventName}`)
+    channel.onmessage = (event: MessageEvent<BroadcastMessage>) => {
+      const { key, value } = event.data
+      const notify = () => {
+        window.dispatchEvent(new StorageEvent(eventName, { key }))
+      }
+
+      if (storage.shared) {
+        notify()
+        return
+      }
+
+      void Promise.resolve(
+        value === null ? storage.removeItem(key) : storage.setItem(key, value),
+      )
+        .then(notify)
+        .catch((error: unknown) => {
+          console.warn(`Error syncing storage key “${key}”:`, error)
+        })
+    }
+
+    subscription = { channel, storage, count: 0 }
+    subscriptions.set(eventName, subscription)
+  }
+
+  subscription.count++
+  const current = subscription
+
+  return () => {
+    current.count--
+    if (current.count === 0) {
+      current.channel.close()
+      subscriptions.delete(eventName)
+    }
+  }
+}
+
+/**
+ * Sends a write to the other tabs subscribed to the same event, if the storage is the one synced through this event.
+ * @param {keyof WindowEventMap} eventName - The event notifying the hooks, which also names the channel.
+ * @param {StorageAdapter} storage - The storage the write was made to.
+ * @param {BroadcastMessage} message - The written key and raw value.
+ * @example
+ * ```ts
+ * broadcast('session-storage', storage, { key: 'count', value: '1' })
+ * ```
+ */
+export function broadcast(
+  eventName: keyof WindowEventMap,
+  storage: StorageAdapter,
+  message: BroadcastMessage,
+): void {
+  const subscription = subscriptions.get(eventName)
+  if (subscription?.storage === storage) {
+    subscription.channel.postMessage(message)
+  }
+}
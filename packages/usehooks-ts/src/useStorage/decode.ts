@@ -0,0 +1,169 @@
+import type { DecodeResult, VersioningOptions } from './envelope'
+import { decodeStoredValue } from './envelope'
+import { parseJSON } from './parse'
+import type { StorageSnapshot } from './store'
+import type { ValidationOptions } from './validation'
+import { validateStoredValue } from './validation'
+
+/**
+ * Options for decoding a stored value, shared by the storage hooks.
+ * @template T - The type of the stored value.
+ */
+export type DecodeOptions<T> = VersioningOptions<T> &
+  Pick<ValidationOptions<T>, 'validate' | 'schema'> & {
+    /** A function to deserialize the stored value, parsing JSON by default. */
+    deserializer?: (value: string) => T
+  }
+
+/** A decoded snapshot, along with the options it was decoded with. */
+type DecodedSnapshot = {
+  /** The options, compared by identity. */
+  options: unknown[]
+  /** The result of decoding the snapshot with these options. */
+  result: DecodeResult<unknown>
+}
+
+// The decoded values of each snapshot, so every hook reading the same
+// snapshot with the same options gets the same value, decoded once
+const decodedSnapshots = new WeakMap<StorageSnapshot, DecodedSnapshot[]>()
+
+// Enough for the hooks reading a key with different options
+const MAX_DECODED_PER_SNAPSHOT = 10
+
+/**
+ * Creates the default deserializer, parsing JSON.
+ * The values parsed with the shared cache are only returned when no callback receives them, so they can't be mutated.
+ * @template T - The type of the stored value.
+ * @param {DecodeOptions<T>} options - The decoding options.
+ * @returns {(value: string) => T} The deserializer.
+ * @example
+ * ```ts
+ * const deserializer = createDeserializer<number>({})
+ * ```
+ */
+function createDeserializer<T>(
+  options: DecodeOptions<T>,
+): (value: string) => T {
+  const { deserializer, migrate, validate, schema } = options
+  if (deserializer) {
+    return deserializer
+  }
+
+  const hasCallbacks = Boolean(migrate ?? validate ?? schema)
+  const parse = hasCallbacks ? JSON.parse : parseJSON
+  return value => {
+    // Support 'undefined' as a value
+    if (value === 'undefined') {
+      return undefined as unknown as T
+    }
+
+    // Invalid JSON throws, to be reported as a serialization error
+    return parse(value) as T
+  }
+}
+
+/**
+ * Unwraps, deserializes, migrates and validates a stored value, without side effects as it runs while rendering.
+ * @template T - The type of the stored value.
+ * @param {string} raw - The raw stored value.
+ * @param {DecodeOptions<T>} options - The decoding options.
+ * @returns {DecodeResult<T>} The value in its current shape, or why the stored value can't be used.
+ * @example
+ * ```ts
+ * const result = decodeRawValue('{"__version":1,"__value":"42"}', { version: 1 })
+ * ```
+ */
+function decodeRawValue<T>(
+  raw: string,
+  options: DecodeOptions<T>,
+): DecodeResult<T> {
+  const { version, migrate, validate, schema } = options
+
+  let decoded: DecodeResult<T>
+  try {
+    decoded = decodeStoredValue(raw, createDeserializer(options), {
+      version,
+      migrate,
+    })
+  } catch (cause) {
+    return { status: 'error', kind: 'serialization', cause }
+  }
+  if (decoded.status !== 'success') {
+    return decoded
+  }
+
+  try {
+    const validated = validateStoredValue(decoded.entry.value, {
+      validate,
+      schema,
+    })
+    if ('error' in validated) {
+      return { status: 'error', kind: 'validation', cause: validated.error }
+    }
+
+    return { status: 'success', entry: { ...decoded.entry, ...validated } }
+  } catch (cause) {
+    return { status: 'error', kind: 'validation', cause }
+  }
+}
+
+/**
+ * Decodes the raw value of a snapshot, once for every hook reading it with the same options, so they get the same value.
+ * @template T - The type of the stored value.
+ * @param {StorageSnapshot} snapshot - The snapshot of the key, ignored if it holds no value.
+ * @param {DecodeOptions<T>} options - The decoding options, the hooks sharing the result when they are the same.
+ * @returns {DecodeResult<T>} The value in its current shape, or why the stored value can't be used.
+ * @example
+ * ```ts
+ * const result = decodeSnapshot(snapshot, { version: 2, migrate })
+ * ```
+ */
+export function decodeSnapshot<T>(
+  snapshot: StorageSnapshot,
+  options: DecodeOptions<T>,
+): DecodeResult<T> {
+  if (!snapshot.raw) {
+    return { status: 'ignored' }
+  }
+
+  const { deserializer, version, migrate, validate, schema } = options
+  const optionList: unknown[] = [
+    deserializer,
+    version,
+    migrate,
+    validate,
+    schema,
+  ]
+
+  let decodings = decodedSnapshots.get(snapshot)
+  if (!decodings) {
+    decodings = []
+    decodedSnapshots.set(snapshot, decodings)
+  }
+
+  const cached = decodings.find(decoded =>
+    decoded.options.every((option, index) =>
+      Object.is(option, optionList[index]),
+    ),
+  )
+  if (cached) {
+    const { result } = cached
+    // The value may have expired since it was decoded
+    if (
+      result.status === 'success' &&
+      result.entry.expiresAt !== undefined &&
+      result.entry.expiresAt <= Date.now()
+    ) {
+      return { status: 'expired' }
+    }
+    return result as DecodeResult<T>
+  }
+
+  const result = decodeRawValue(snapshot.raw, options)
+  decodings.push({ options: optionList, result })
+  // Options created on each render would never match, drop the oldest ones
+  if (decodings.length > MAX_DECODED_PER_SNAPSHOT) {
+    decodings.shift()
+  }
+  return result
+}
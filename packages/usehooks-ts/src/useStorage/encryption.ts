@@ -0,0 +1,129 @@
+import type { StorageAdapter } from './useStorage'
+
+/** Options for encrypting the persisted values, shared by the storage hooks. */
+export type EncryptionOptions = {
+  /**
+   * Encrypts the stored values with AES-GCM through the [Web Crypto API](https://developer.mozilla.org/en-US/docs/Web/API/SubtleCrypto), so they can't be read from the devtools.
+   * As encryption is asynchronous, the hook starts with the initial value and `loading` set to `true` until the stored value has been decrypted.
+   * Values that can't be decrypted, like values written with another key, fall back to the initial value.
+   */
+  encryption?: {
+    /**
+     * The AES-GCM key, or a promise resolving to it, like the result of `crypto.subtle.importKey()`.
+     * It must be the same object on every render, so create it once outside of your components.
+     */
+    key: CryptoKey | Promise<CryptoKey>
+  }
+}
+
+// The recommended length of the AES-GCM initialization vector
+const IV_LENGTH = 12
+
+// One encrypted storage per storage and key, so the hooks sharing them share the same adapter
+const encryptedStorages = new WeakMap<
+  StorageAdapter,
+  WeakMap<CryptoKey | Promise<CryptoKey>, StorageAdapter>
+>()
+
+/**
+ * Encodes bytes in base64, to store them as a string.
+ * @param {Uint8Array} bytes - The bytes to encode.
+ * @returns {string} The base64 string.
+ * @example
+ * ```ts
+ * toBase64(new Uint8Array([1, 2, 3])) // 'AQID'
+ * ```
+ */
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+}
+
+/**
+ * Decodes a base64 string into bytes.
+ * @param {string} base64 - The base64 string.
+ * @returns {Uint8Array<ArrayBuffer>} The decoded bytes.
+ * @example
+ * ```ts
+ * fromBase64('AQID') // Uint8Array [1, 2, 3]
+ * ```
+ */
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index)
+  }
+  return bytes
+}
+
+/**
+ * Wraps a storage so every value is encrypted before being written, and decrypted after being read.
+ * Each value is stored in base64, prefixed by its random initialization vector.
+ * The same storage and key always return the same adapter.
+ * @param {StorageAdapter} storage - The storage holding the encrypted values.
+ * @param {CryptoKey | Promise<CryptoKey>} key - The AES-GCM key.
+ * @returns {StorageAdapter} The asynchronous storage adapter.
+ * @example
+ * ```ts
+ * const storage = encryptStorage(localStorageAdapter, key)
+ * ```
+ */
+export function encryptStorage(
+  storage: StorageAdapter,
+  key: CryptoKey | Promise<CryptoKey>,
+): StorageAdapter {
+  let storageAdapters = encryptedStorages.get(storage)
+  if (!storageAdapters) {
+    storageAdapters = new WeakMap()
+    encryptedStorages.set(storage, storageAdapters)
+  }
+
+  const cachedAdapter = storageAdapters.get(key)
+  if (cachedAdapter) {
+    return cachedAdapter
+  }
+
+  const adapter: StorageAdapter = {
+    getItem: async itemKey => {
+      const encrypted = await storage.getItem(itemKey)
+      if (encrypted === null) {
+        return null
+      }
+
+      let bytes: Uint8Array<ArrayBuffer>
+      try {
+        bytes = fromBase64(encrypted)
+      } catch {
+        throw new DOMException(
+          'The stored value is not encrypted',
+          'OperationError',
+        )
+      }
+
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+        await key,
+        bytes.slice(IV_LENGTH),
+      )
+      return new TextDecoder().decode(decrypted)
+    },
+    setItem: async (itemKey, value) => {
+      const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+      const encrypted = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        await key,
+        new TextEncoder().encode(value),
+      )
+
+      const bytes = new Uint8Array(IV_LENGTH + encrypted.byteLength)
+      bytes.set(iv)
+      bytes.set(new Uint8Array(encrypted), IV_LENGTH)
+      await storage.setItem(itemKey, toBase64(bytes))
+    },
+    removeItem: itemKey => storage.removeItem(itemKey),
+    shared: storage.shared,
+  }
+
+  storageAdapters.set(key, adapter)
+  return adapter
+}
@@ -0,0 +1,196 @@
+import type { StorageErrorKind } from './errors'
+import { parseJSON } from './parse'
+
+/**
+ * Options for versioning the persisted values, shared by the storage hooks.
+ * @template T - The type of the stored value.
+ */
+export type VersioningOptions<T> = {
+  /**
+   * The version of the stored value shape. When set, the value is stored in an envelope holding this version.
+   * Values stored without version are considered to be at version `0`.
+   */
+  version?: number
+  /**
+   * A function to upgrade a value stored with an older version. Without it, or if it throws, outdated values are ignored and reported as validation errors, like the values stored with a newer version.
+   * @param {unknown} oldValue - The deserialized outdated value.
+   * @param {number} oldVersion - The version the value was stored with.
+   * @returns {T} The value in its current shape.
+   */
+  migrate?: (oldValue: unknown, oldVersion: number) => T
+}
+
+/** Options for expiring the persisted values, shared by the storage hooks. */
+export type ExpirationOptions = {
+  /** The time to live of the value in milliseconds, from each time it is set. */
+  ttl?: number
+  /** The date (or timestamp in milliseconds) when the value expires. */
+  expiresAt?: Date | number
+}
+
+/** The envelope stored when a version or an expiration is set. */
+type Envelope = {
+  /** The serialized value. */
+  __value: string
+  /** The version the value was stored with. */
+  __version?: number
+  /** The timestamp in milliseconds when the value expires. */
+  __expiresAt?: number
+}
+
+/** A value read from the storage, along with its expiration. */
+export type StoredEntry<T> = {
+  /** The deserialized value. */
+  value: T
+  /** The timestamp in milliseconds when the value expires, if any. */
+  expiresAt?: number
+}
+
+/** The result of decoding a raw stored value. */
+export type DecodeResult<T> =
+  | { status: 'success'; entry: StoredEntry<T> }
+  | { status: 'expired' }
+  | { status: 'ignored' }
+  | { status: 'error'; kind: StorageErrorKind; cause: unknown }
+
+/**
+ * Reads the envelope out of a raw stored value.
+ * @param {string} raw - The raw stored value.
+ * @returns {Envelope | null} The envelope, or `null` if the value wasn't stored with a version nor an expiration.
+ * @example
+ * ```ts
+ * parseEnvelope('{"__version":1,"__value":"42"}') // { __version: 1, __value: '42' }
+ * ```
+ */
+function parseEnvelope(raw: string): Envelope | null {
+  let parsed: unknown
+  try {
+    parsed = parseJSON(raw)
+  } catch {
+    return null
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null
+  }
+
+  const { __value, __version, __expiresAt } = parsed as Partial<Envelope>
+  if (
+    typeof __value === 'string' &&
+    (typeof __version === 'number' || typeof __expiresAt === 'number')
+  ) {
+    return parsed as Envelope
+  }
+
+  return null
+}
+
+/**
+ * Computes when a value being set expires.
+ * @param {ExpirationOptions} options - The expiration options.
+ * @returns {number | undefined} The timestamp in milliseconds when the value expires, or `undefined` if it never expires.
+ * @example
+ * ```ts
+ * getExpiration({ ttl: 60_000 }) // Date.now() + 60_000
+ * ```
+ */
+export function getExpiration(options: ExpirationOptions): number | undefined {
+  const { ttl, expiresAt } = options
+  const candidates: number[] = []
+
+  if (ttl !== undefined) {
+    candidates.push(Date.now() + ttl)
+  }
+  if (expiresAt !== undefined) {
+    candidates.push(expiresAt instanceof Date ? expiresAt.getTime() : expiresAt)
+  }
+
+  return candidates.length ? Math.min(...candidates) : undefined
+}
+
+/**
+ * Wraps a serialized value in an envelope, if a version or an expiration is set.
+ * @param {string} serialized - The serialized value.
+ * @param {object} metadata - The metadata to store alongside the value.
+ * @param {number} [metadata.version] - The current version of the value shape.
+ * @param {number} [metadata.expiresAt] - The timestamp in milliseconds when the value expires.
+ * @returns {string} The string to store.
+ * @example
+ * ```ts
+ * serializeEnvelope('42', { version: 1 }) // '{"__value":"42","__version":1}'
+ * ```
+ */
+export function serializeEnvelope(
+  serialized: string,
+  metadata: { version?: number; expiresAt?: number },
+): string {
+  const { version, expiresAt } = metadata
+  if (version === undefined && expiresAt === undefined) {
+    return serialized
+  }
+
+  const envelope: Envelope = {
+    __value: serialized,
+    __version: version,
+    __expiresAt: expiresAt,
+  }
+  return JSON.stringify(envelope)
+}
+
+/**
+ * Unwraps and deserializes a stored value, migrating it if it was stored with an older version.
+ * @template T - The type of the stored value.
+ * @param {string} raw - The raw stored value.
+ * @param {(value: string) => T} deserializer - The function to deserialize the value.
+ * @param {VersioningOptions<T>} options - The versioning options.
+ * @returns {DecodeResult<T>} The value in its current shape, or why the stored value can't be used.
+ * @example
+ * ```ts
+ * const result = decodeStoredValue(raw, JSON.parse, { version: 2, migrate })
+ * const value = result.status === 'success' ? result.entry.value : initialValue
+ * ```
+ */
+export function decodeStoredValue<T>(
+  raw: string,
+  deserializer: (value: string) => T,
+  options: VersioningOptions<T>,
+): DecodeResult<T> {
+  const { version, migrate } = options
+  const envelope = parseEnvelope(raw)
+  const storedVersion = envelope?.__version ?? 0
+  const expiresAt = envelope?.__expiresAt
+  const value = envelope ? envelope.__value : raw
+
+  if (expiresAt !== undefined && expiresAt <= Date.now()) {
+    return { status: 'expired' }
+  }
+
+  if (version === undefined || storedVersion === version) {
+    return {
+      status: 'success',
+      entry: { value: deserializer(value), expiresAt },
+    }
+  }
+
+  // Reported like the invalid values, as they can't be read in their current shape
+  if (storedVersion > version || !migrate) {
+    return {
+      status: 'error',
+      kind: 'validation',
+      cause: new Error(
+        `Stored value has version ${String(storedVersion)}, expected version ${String(version)}`,
+      ),
+    }
+  }
+
+  // Invalid serialized values throw, to be reported as serialization errors
+  const oldValue = deserializer(value)
+  try {
+    return {
+      status: 'success',
+      entry: { value: migrate(oldValue, storedVersion), expiresAt },
+    }
+  } catch (error) {
+    return { status: 'error', kind: 'validation', cause: error }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * The kind of a storage error:
+ * - `quota`: the storage is full.
+ * - `security`: the storage can't be accessed, like when cookies are blocked.
+ * - `serialization`: the value can't be serialized or deserialized.
+ * - `encryption`: the value can't be encrypted or decrypted, like with the wrong key.
+ * - `validation`: the stored value is invalid.
+ * - `unknown`: any other error.
+ */
+export type StorageErrorKind =
+  | 'quota'
+  | 'security'
+  | 'serialization'
+  | 'encryption'
+  | 'validation'
+  | 'unknown'
+
+/** An error raised while reading or writing a stored value. */
+export type StorageError = {
+  /** The kind of the error. */
+  kind: StorageErrorKind
+  /** The key being read or written. */
+  key: string
+  /** The original error. */
+  cause: unknown
+}
+
+/** Options for handling the storage errors, shared by the storage hooks. */
+export type ErrorOptions = {
+  /**
+   * A function called when reading or writing the value fails, or when the stored value is invalid.
+   * When set, errors are no longer logged to the console.
+   */
+  onError?: (error: StorageError) => void
+}
+
+// Firefox used to name the quota error differently
+const QUOTA_ERROR_NAMES = ['QuotaExceededError', 'NS_ERROR_DOM_QUOTA_REACHED']
+
+/**
+ * Wraps an error raised by a storage, guessing its kind from its name.
+ * @param {string} key - The key being read or written.
+ * @param {unknown} cause - The original error.
+ * @param {StorageErrorKind} [kind] - The kind of the error, guessed if omitted.
+ * @returns {StorageError} The storage error.
+ * @example
+ * ```ts
+ * toStorageError('key', new DOMException('Full', 'QuotaExceededError')) // { kind: 'quota', ... }
+ * ```
+ */
+export function toStorageError(
+  key: string,
+  cause: unknown,
+  kind?: StorageErrorKind,
+): StorageError {
+  if (kind) {
+    return { kind, key, cause }
+  }
+
+  // `DOMException` doesn't extend `Error` in every environment
+  const name =
+    typeof cause === 'object' && cause !== null && 'name' in cause
+      ? String(cause.name)
+      : undefined
+
+  if (name && QUOTA_ERROR_NAMES.includes(name)) {
+    return { kind: 'quota', key, cause }
+  }
+  if (name === 'SecurityError') {
+    return { kind: 'security', key, cause }
+  }
+  // The name of the Web Crypto errors
+  if (name === 'OperationError') {
+    return { kind: 'encryption', key, cause }
+  }
+
+  return { kind: 'unknown', key, cause }
+}
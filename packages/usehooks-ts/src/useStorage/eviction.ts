@@ -0,0 +1,200 @@
+import { toStorageError } from './errors'
+import type { StorageAdapter } from './useStorage'
+
+/** Options for freeing space when the storage is full, shared by the storage hooks. */
+export type EvictionOptions = {
+  /**
+   * When a write exceeds the storage quota, the least recently written keys starting with `prefix` are removed until the write succeeds.
+   * Only synchronous storages, like `localStorage` and `sessionStorage`, are supported.
+   */
+  eviction?: {
+    /** The eviction strategy, only least recently used is supported. */
+    strategy: 'lru'
+    /** The namespace of the keys that can be evicted. */
+    prefix: string
+  }
+}
+
+/**
+ * Gets the key under which the write order of a namespace is stored.
+ * @param {string} prefix - The namespace of the keys.
+ * @returns {string} The key of the index.
+ * @example
+ * ```ts
+ * getIndexKey('drafts:') // 'usehooks-ts:lru:drafts:'
+ * ```
+ */
+function getIndexKey(prefix: string): string {
+  return `usehooks-ts:lru:${prefix}`
+}
+
+/**
+ * Reads the keys of a namespace, from the least to the most recently written.
+ * @param {StorageAdapter} storage - The synchronous storage.
+ * @param {string} prefix - The namespace of the keys.
+ * @returns {string[]} The keys, empty if the storage is asynchronous.
+ * @example
+ * ```ts
+ * const keys = readIndex(storage, 'drafts:')
+ * ```
+ */
+function readIndex(storage: StorageAdapter, prefix: string): string[] {
+  try {
+    const raw = storage.getItem(getIndexKey(prefix))
+    if (typeof raw !== 'string') {
+      return []
+    }
+
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed)
+      ? parsed.filter((key): key is string => typeof key === 'string')
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Writes the keys of a namespace, ignoring failures since the index is only a hint.
+ * @param {StorageAdapter} storage - The synchronous storage.
+ * @param {string} prefix - The namespace of the keys.
+ * @param {string[]} keys - The keys, from the least to the most recently written.
+ * @example
+ * ```ts
+ * writeIndex(storage, 'drafts:', ['drafts:a', 'drafts:b'])
+ * ```
+ */
+function writeIndex(
+  storage: StorageAdapter,
+  prefix: string,
+  keys: string[],
+): void {
+  try {
+    void Promise.resolve(
+      storage.setItem(getIndexKey(prefix), JSON.stringify(keys)),
+    ).catch(() => undefined)
+  } catch {
+    // The index may not fit in a full storage, the next write will try again
+  }
+}
+
+/**
+ * Marks a key as the most recently written of its namespace.
+ * @param {StorageAdapter} storage - The synchronous storage.
+ * @param {string} prefix - The namespace of the keys.
+ * @param {string} key - The written key, ignored if it's outside the namespace.
+ * @example
+ * ```ts
+ * touchKey(storage, 'drafts:', 'drafts:a')
+ * ```
+ */
+function touchKey(storage: StorageAdapter, prefix: string, key: string): void {
+  if (!key.startsWith(prefix)) {
+    return
+  }
+
+  const keys = readIndex(storage, prefix).filter(item => item !== key)
+  writeIndex(storage, prefix, [...keys, key])
+}
+
+/**
+ * Forgets a removed key of a namespace.
+ * @param {StorageAdapter} storage - The synchronous storage.
+ * @param {string} prefix - The namespace of the keys.
+ * @param {string} key - The removed key.
+ * @example
+ * ```ts
+ * forgetKey(storage, 'drafts:', 'drafts:a')
+ * ```
+ */
+export function forgetKey(
+  storage: StorageAdapter,
+  prefix: string,
+  key: string,
+): void {
+  const keys = readIndex(storage, prefix)
+  if (keys.includes(key)) {
+    writeIndex(
+      storage,
+      prefix,
+      keys.filter(item => item !== key),
+    )
+  }
+}
+
+/**
+ * Writes a value, evicting the least recently written keys of the namespace while the storage is full.
+ * @param {StorageAdapter} storage - The synchronous storage.
+ * @param {string} prefix - The namespace of the keys that can be evicted.
+ * @param {string} key - The key to write.
+ * @param {string} value - The raw value to write.
+ * @param {(evictedKey: string) => void} onEvict - A function called with each evicted key.
+ * @returns {void | Promise<void>} The result of the write.
+ * @throws Will rethrow the write error if it is not a quota error, or if there is nothing left to evict.
+ * @example
+ * ```ts
+ * setItemWithEviction(storage, 'drafts:', 'drafts:c', '"text"', notify)
+ * ```
+ */
+export function setItemWithEviction(
+  storage: StorageAdapter,
+  prefix: string,
+  key: string,
+  value: string,
+  onEvict: (evictedKey: string) => void,
+): void | Promise<void> {
+  try {
+    const result = storage.setItem(key, value)
+    // Asynchronous storages aren't supported
+    if (result instanceof Promise) {
+      return result
+    }
+
+    touchKey(storage, prefix, key)
+    return
+  } catch (cause) {
+    if (toStorageError(key, cause).kind !== 'quota') {
+      throw cause
+    }
+
+    const evictedKey = evictLeastRecentlyUsed(storage, prefix, key)
+    if (evictedKey === undefined) {
+      throw cause
+    }
+
+    onEvict(evictedKey)
+    return setItemWithEviction(storage, prefix, key, value, onEvict)
+  }
+}
+
+/**
+ * Removes the least recently written key of a namespace.
+ * @param {StorageAdapter} storage - The synchronous storage.
+ * @param {string} prefix - The namespace of the keys.
+ * @param {string} exceptKey - The key being written, which is never evicted.
+ * @returns {string | undefined} The evicted key, `undefined` if there is nothing left to evict.
+ * @example
+ * ```ts
+ * const evictedKey = evictLeastRecentlyUsed(storage, 'drafts:', 'drafts:c')
+ * ```
+ */
+function evictLeastRecentlyUsed(
+  storage: StorageAdapter,
+  prefix: string,
+  exceptKey: string,
+): string | undefined {
+  const keys = readIndex(storage, prefix)
+  const evictedKey = keys.find(key => key !== exceptKey)
+  if (evictedKey === undefined) {
+    return
+  }
+
+  void Promise.resolve(storage.removeItem(evictedKey)).catch(() => undefined)
+  writeIndex(
+    storage,
+    prefix,
+    keys.filter(key => key !== evictedKey),
+  )
+
+  return evictedKey
+}
@@ -0,0 +1,3 @@
+export type { StorageError, StorageErrorKind } from './errors'
+export { taggedJSON } from './taggedJSON'
+export * from './useStorage'
@@ -0,0 +1,100 @@
+/** A read, write or removal made through the storage hooks. */
+export type StorageRecord = {
+  /** What was done with the key. */
+  action: 'read' | 'write' | 'remove'
+  /** The event notifying the hooks of the storage, like `'local-storage'`. */
+  storage: keyof WindowEventMap
+  /** The key. */
+  key: string
+  /** The raw value before the write or removal, `undefined` for reads. */
+  oldValue?: string | null
+  /** The raw value read or written, `null` if there is none. */
+  newValue: string | null
+  /** The time of the action, in milliseconds since the epoch. */
+  timestamp: number
+  /** The stack trace of the write or removal, hinting at the component that made it. */
+  stack?: string
+}
+
+/** Options for recording the storage actions. */
+type StorageInspectorOptions = {
+  /**
+   * The maximum number of records kept, the oldest ones being dropped.
+   * @default 100
+   */
+  limit?: number
+}
+
+/** Records the storage actions, for debugging purposes. */
+type StorageInspector = {
+  /** Starts recording the storage actions. */
+  enable: (options?: StorageInspectorOptions) => void
+  /** Stops recording the storage actions, keeping the records made so far. */
+  disable: () => void
+  /** Whether the storage actions are being recorded. */
+  isEnabled: () => boolean
+  /** Returns the records, from the oldest to the most recent, the same array until a new action is recorded. */
+  getRecords: () => readonly StorageRecord[]
+  /** Removes every record. */
+  clear: () => void
+  /** Subscribes to the new records, returning a function to unsubscribe. */
+  subscribe: (
+    listener: (records: readonly StorageRecord[]) => void,
+  ) => () => void
+}
+
+const DEFAULT_LIMIT = 100
+
+let enabled = false
+let limit = DEFAULT_LIMIT
+// Replaced on each change, so it can be used as an external store snapshot
+let records: readonly StorageRecord[] = []
+const listeners = new Set<(records: readonly StorageRecord[]) => void>()
+
+const setRecords = (nextRecords: readonly StorageRecord[]) => {
+  records = nextRecords
+  listeners.forEach(listener => {
+    listener(records)
+  })
+}
+
+/** The inspector recording every read, write and removal made through the storage hooks, once enabled. */
+export const storageInspector: StorageInspector = {
+  enable: (options = {}) => {
+    enabled = true
+    limit = options.limit ?? DEFAULT_LIMIT
+  },
+  disable: () => {
+    enabled = false
+  },
+  isEnabled: () => enabled,
+  getRecords: () => records,
+  clear: () => {
+    setRecords([])
+  },
+  subscribe: listener => {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+}
+
+/**
+ * Records a storage action, if the inspector is enabled.
+ * @param {Omit<StorageRecord, 'timestamp'>} record - The action to record.
+ * @example
+ * ```ts
+ * recordStorageAction({ action: 'read', storage: 'local-storage', key: 'theme', newValue: '"dark"' })
+ * ```
+ */
+export function recordStorageAction(
+  record: Omit<StorageRecord, 'timestamp'>,
+): void {
+  if (!enabled) {
+    return
+  }
+
+  const nextRecords = [...records, { ...record, timestamp: Date.now() }]
+  setRecords(nextRecords.slice(Math.max(nextRecords.length - limit, 0)))
+}
@@ -0,0 +1,39 @@
+// The most recently parsed values by raw string, shared by every storage hook
+// so identical raw values give the same object
+const cache = new Map<string, unknown>()
+
+// Enough for the keys displayed at once, without keeping every value ever read
+const MAX_CACHE_SIZE = 100
+
+/**
+ * Parses a JSON string, returning the same value as the previous calls with the same string.
+ * The returned values are shared, so they must not be mutated.
+ * @param {string} raw - The JSON string.
+ * @returns {unknown} The parsed value.
+ * @throws Will throw a `SyntaxError` if the string is not valid JSON.
+ * @example
+ * ```ts
+ * parseJSON('{"a":1}') === parseJSON('{"a":1}') // true
+ * ```
+ */
+export function parseJSON(raw: string): unknown {
+  if (cache.has(raw)) {
+    const cached = cache.get(raw)
+    // Move it to the end, as the most recently used
+    cache.delete(raw)
+    cache.set(raw, cached)
+    return cached
+  }
+
+  const parsed: unknown = JSON.parse(raw)
+  cache.set(raw, parsed)
+
+  if (cache.size > MAX_CACHE_SIZE) {
+    const leastRecentlyUsed = cache.keys().next()
+    if (!leastRecentlyUsed.done) {
+      cache.delete(leastRecentlyUsed.value)
+    }
+  }
+
+  return parsed
+}
@@ -0,0 +1,214 @@
+import type { StorageAdapter } from './useStorage'
+
+/** The raw value of a key, as seen by every hook reading it. */
+export type StorageSnapshot = {
+  /** The raw stored value, `null` if there is none. */
+  raw: string | null
+  /** Whether the value is still being read, only `true` with asynchronous storages. */
+  loading: boolean
+  /** The error raised while reading the value, if any. */
+  error?: unknown
+}
+
+/** The external store of a key, shared by every hook reading it from the same storage. */
+export type StorageStore = {
+  /** Subscribes to the changes of the key, returning a function to unsubscribe. */
+  subscribe: (listener: () => void) => () => void
+  /** Returns the current snapshot, the same object as long as the value doesn't change. */
+  getSnapshot: () => StorageSnapshot
+  /** Reads the key again and notifies the subscribers if it changed. */
+  refresh: () => void
+  /** Sets the value before it is written to an asynchronous storage, so every hook updates immediately. */
+  update: (raw: string | null) => void
+}
+
+// One store per storage, event and key
+const stores = new WeakMap<StorageAdapter, Map<string, StorageStore>>()
+
+/**
+ * Checks whether the given value is a promise (or any thenable).
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} `true` if the value is a thenable.
+ * @example
+ * ```ts
+ * isPromiseLike(Promise.resolve(1)) // true
+ * ```
+ */
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  )
+}
+
+/**
+ * Creates the external store of a key.
+ * Synchronous storages are read on each snapshot, while the value of asynchronous ones is cached.
+ * @param {StorageAdapter} storage - The storage holding the key.
+ * @param {string} key - The key.
+ * @param {keyof WindowEventMap} eventName - The window event notifying the writes to the storage.
+ * @returns {StorageStore} The store.
+ * @example
+ * ```ts
+ * const store = createStore(storage, 'count', 'local-storage')
+ * ```
+ */
+function createStore(
+  storage: StorageAdapter,
+  key: string,
+  eventName: keyof WindowEventMap,
+): StorageStore {
+  const listeners = new Set<() => void>()
+  let snapshot: StorageSnapshot = { raw: null, loading: true }
+  // Unknown until the first read
+  let isAsync: boolean | undefined
+  // Incremented on each read or update, so a slow read can't override a more recent value
+  let revision = 0
+
+  const notify = () => {
+    listeners.forEach(listener => {
+      listener()
+    })
+  }
+
+  const setSnapshot = (nextSnapshot: StorageSnapshot) => {
+    // Keep the same object while nothing changed, or it would render forever
+    if (
+      nextSnapshot.raw === snapshot.raw &&
+      nextSnapshot.loading === snapshot.loading &&
+      (nextSnapshot.error === undefined) === (snapshot.error === undefined)
+    ) {
+      return false
+    }
+
+    snapshot = nextSnapshot
+    return true
+  }
+
+  const read = () => {
+    const currentRevision = ++revision
+    let raw: string | null | PromiseLike<string | null>
+
+    try {
+      raw = storage.getItem(key)
+    } catch (error) {
+      isAsync = false
+      setSnapshot({ raw: null, loading: false, error })
+      return
+    }
+
+    if (!isPromiseLike<string | null>(raw)) {
+      isAsync = false
+      setSnapshot({ raw, loading: false })
+      return
+    }
+
+    isAsync = true
+    Promise.resolve(raw).then(
+      resolved => {
+        if (
+          currentRevision === revision &&
+          setSnapshot({ raw: resolved, loading: false })
+        ) {
+          notify()
+        }
+      },
+      (error: unknown) => {
+        if (
+          currentRevision === revision &&
+          setSnapshot({ raw: null, loading: false, error })
+        ) {
+          notify()
+        }
+      },
+    )
+  }
+
+  const refresh = () => {
+    // Synchronous storages are read again by the subscribers
+    if (!isAsync) {
+      notify()
+      return
+    }
+    read()
+  }
+
+  const handleStorageChange = (event: Event) => {
+    const changedKey = (event as StorageEvent).key
+    // A `null` key means the whole storage was cleared
+    if (changedKey === null || changedKey === key) {
+      refresh()
+    }
+  }
+
+  return {
+    subscribe: listener => {
+      if (listeners.size === 0) {
+        // this only works for other documents, not the current one
+        window.addEventListener('storage', handleStorageChange)
+        // this is a custom event, dispatched after each write
+        window.addEventListener(eventName, handleStorageChange)
+        // The cached value may have changed while nobody was listening
+        if (isAsync) {
+          read()
+        }
+      }
+      listeners.add(listener)
+
+      return () => {
+        listeners.delete(listener)
+        if (listeners.size === 0) {
+          window.removeEventListener('storage', handleStorageChange)
+          window.removeEventListener(eventName, handleStorageChange)
+        }
+      }
+    },
+    getSnapshot: () => {
+      if (isAsync !== true) {
+        read()
+      }
+      return snapshot
+    },
+    refresh,
+    update: raw => {
+      revision++
+      if (setSnapshot({ raw, loading: false })) {
+        notify()
+      }
+    },
+  }
+}
+
+/**
+ * Gets the external store of a key, shared by every hook reading it from the same storage.
+ * @param {StorageAdapter} storage - The storage holding the key.
+ * @param {string} key - The key.
+ * @param {keyof WindowEventMap} eventName - The window event notifying the writes to the storage.
+ * @returns {StorageStore} The store.
+ * @example
+ * ```ts
+ * const store = getStore(localStorageAdapter, 'count', 'local-storage')
+ * const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot)
+ * ```
+ */
+export function getStore(
+  storage: StorageAdapter,
+  key: string,
+  eventName: keyof WindowEventMap,
+): StorageStore {
+  let storageStores = stores.get(storage)
+  if (!storageStores) {
+    storageStores = new Map()
+    stores.set(storage, storageStores)
+  }
+
+  const id = JSON.stringify([eventName, key])
+  let store = storageStores.get(id)
+  if (!store) {
+    store = createStore(storage, key, eventName)
+    storageStores.set(id, store)
+  }
+
+  return store
+}
@@ -0,0 +1,137 @@
+/** A pair of serializer and deserializer, to pass to the options of the storage hooks. */
+type SerializerPreset = {
+  /** Serializes the value before storing it. */
+  serializer: (value: unknown) => string
+  /** Deserializes the stored value. */
+  deserializer: <T>(value: string) => T
+}
+
+/** The types that JSON can't represent, stored as tagged objects. */
+type TaggedType = 'Date' | 'Map' | 'Set' | 'BigInt' | 'undefined'
+
+/** A value of a type that JSON can't represent, like `{ "__type": "Date", "__value": 1577836800000 }`. */
+type TaggedValue = {
+  /** The type of the value. */
+  __type: TaggedType
+  /** The JSON representation of the value, absent for `undefined`. */
+  __value?: unknown
+}
+
+const TAGGED_TYPES: TaggedType[] = ['Date', 'Map', 'Set', 'BigInt', 'undefined']
+
+/**
+ * Checks whether a parsed value is a tagged value.
+ * @param {unknown} value - The parsed value.
+ * @returns {boolean} `true` if the value is a tagged value.
+ * @example
+ * ```ts
+ * isTaggedValue({ __type: 'Set', __value: [1, 2] }) // true
+ * ```
+ */
+function isTaggedValue(value: unknown): value is TaggedValue {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const { __type } = value as Partial<TaggedValue>
+  return __type !== undefined && TAGGED_TYPES.includes(__type)
+}
+
+/**
+ * Replaces the values that JSON can't represent with tagged values, as a `JSON.stringify()` replacer.
+ * It reads the original value from the holder, as dates are already converted by `toJSON()`.
+ * @param {Record<string, unknown>} this - The object holding the value.
+ * @param {string} key - The key of the value.
+ * @param {unknown} value - The value, after `toJSON()`.
+ * @returns {unknown} The value to serialize.
+ * @example
+ * ```ts
+ * JSON.stringify(new Set([1]), replacer) // '{"__type":"Set","__value":[1]}'
+ * ```
+ */
+function replacer(
+  this: Record<string, unknown>,
+  key: string,
+  value: unknown,
+): unknown {
+  const original = this[key]
+
+  if (original instanceof Date) {
+    const time = original.getTime()
+    // Invalid dates are stored as `null`
+    return { __type: 'Date', __value: Number.isNaN(time) ? null : time }
+  }
+  if (original instanceof Map) {
+    return { __type: 'Map', __value: Array.from(original.entries()) }
+  }
+  if (original instanceof Set) {
+    return { __type: 'Set', __value: Array.from(original.values()) }
+  }
+  if (typeof original === 'bigint') {
+    return { __type: 'BigInt', __value: original.toString() }
+  }
+  if (original === undefined) {
+    return { __type: 'undefined' }
+  }
+
+  return value
+}
+
+/**
+ * Restores the tagged values of a parsed value, recursively.
+ * A reviver can't be used as it drops the properties set to `undefined`.
+ * @param {unknown} value - The parsed value.
+ * @returns {unknown} The value with its dates, maps, sets, big integers and `undefined` restored.
+ * @example
+ * ```ts
+ * revive({ __type: 'BigInt', __value: '1' }) // 1n
+ * ```
+ */
+function revive(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(revive)
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+
+  if (isTaggedValue(value)) {
+    const { __type, __value } = value
+    switch (__type) {
+      case 'Date':
+        return new Date(__value === null ? NaN : (__value as number))
+      case 'Map':
+        return new Map(
+          (__value as unknown[][]).map(([key, entry]) => [
+            revive(key),
+            revive(entry),
+          ]),
+        )
+      case 'Set':
+        return new Set((__value as unknown[]).map(revive))
+      case 'BigInt':
+        return BigInt(__value as string)
+      case 'undefined':
+        return undefined
+    }
+  }
+
+  // `fromEntries()` defines a `__proto__` key as a regular property
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key, revive(entry)]),
+  )
+}
+
+/**
+ * A serializer preset storing the values as tagged JSON, which round-trips the `Date`, `Map`, `Set`, `BigInt` and `undefined` values that `JSON.stringify()` loses.
+ * Pass it to any storage hook, objects with a `__type` key being reserved.
+ * @example
+ * ```tsx
+ * const [visits, setVisits] = useLocalStorage('visits', new Map<string, Date>(), taggedJSON);
+ * const lastVisits = useReadLocalStorage<Map<string, Date>>('visits', taggedJSON);
+ * ```
+ */
+export const taggedJSON: SerializerPreset = {
+  serializer: value => JSON.stringify(value, replacer),
+  deserializer: <T>(value: string) => revive(JSON.parse(value)) as T,
+}
@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from 'react'
+
+import { useSyncExternalStore } from 'use-sync-external-store/shim'
+
+import { STORAGE_ADAPTERS, STORAGE_EVENTS } from './adapters'
+import type { DecodeOptions } from './decode'
+import { decodeSnapshot } from './decode'
+import type { VersioningOptions } from './envelope'
+import type { ErrorOptions, StorageError } from './errors'
+import { toStorageError } from './errors'
+import { recordStorageAction } from './inspector'
+import type { StorageSnapshot } from './store'
+import { getStore } from './store'
+import type { ValidationOptions } from './validation'
+
+/**
+ * Options for reading a value, shared by the read-only storage hooks.
+ * @template T - The type of the stored value.
+ */
+export type ReadStorageOptions<T> = VersioningOptions<T> &
+  ValidationOptions<T> &
+  ErrorOptions & {
+    /** Custom deserializer function to convert the stored string value to the desired type (optional). */
+    deserializer?: (value: string) => T
+    /** If `false`, the first render returns `undefined`, on the server and on the client, and the return type includes it. */
+    initializeWithValue?: boolean
+  }
+
+const IS_SERVER = typeof window === 'undefined'
+
+// Rendered on the server and during hydration, where the value is `null`,
+// or `undefined` without `initializeWithValue`
+const SERVER_SNAPSHOT: StorageSnapshot = { raw: null, loading: false }
+
+const getServerSnapshot = () => SERVER_SNAPSHOT
+
+/** The value read from a snapshot, along with the error that made it `null`. */
+type ReadResult<T> = {
+  /** The stored value, `null` if the key is not present or an error occurs. */
+  value: T | null | undefined
+  /** The error raised while reading the value, if any. */
+  error?: StorageError
+}
+
+/**
+ * Reads the value of a snapshot, without side effects as it runs while rendering.
+ * @template T - The type of the stored value.
+ * @param {StorageSnapshot} snapshot - The snapshot of the key.
+ * @param {string} key - The key.
+ * @param {DecodeOptions<T>} options - The deserialization, versioning and validation options.
+ * @returns {ReadResult<T>} The stored value, `null` if it's missing, expired or invalid.
+ * @example
+ * ```ts
+ * const { value, error } = readSnapshotValue(store.getSnapshot(), 'count', {})
+ * ```
+ */
+export function readSnapshotValue<T>(
+  snapshot: StorageSnapshot,
+  key: string,
+  options: DecodeOptions<T>,
+): ReadResult<T> {
+  if (snapshot.error !== undefined) {
+    return { value: null, error: toStorageError(key, snapshot.error) }
+  }
+
+  // Shared by the hooks reading the same snapshot with the same options
+  const decoded = decodeSnapshot(snapshot, options)
+  if (decoded.status === 'error') {
+    return {
+      value: null,
+      error: toStorageError(key, decoded.cause, decoded.kind),
+    }
+  }
+  // Expired values are considered as missing
+  if (decoded.status !== 'success') {
+    return { value: null }
+  }
+
+  return { value: decoded.entry.value }
+}
+
+/**
+ * Reads a value from a web storage, the shared core of `useReadLocalStorage()` and `useReadSessionStorage()`.
+ * @template T - The type of the stored value.
+ * @param {string} key - The key associated with the value in the storage.
+ * @param {ReadStorageOptions<T>} options - Additional options for reading the value.
+ * @param {keyof typeof STORAGE_EVENTS} storage - The storage holding the key.
+ * @returns {T | null | undefined} The stored value, `null` if the key is not present or an error occurs, `undefined` on the server and during hydration without `initializeWithValue`.
+ * @example
+ * ```tsx
+ * const value = useReadStorage<string>('theme', {}, 'sessionStorage');
+ * ```
+ */
+export function useReadStorage<T>(
+  key: string,
+  options: ReadStorageOptions<T>,
+  storage: keyof typeof STORAGE_EVENTS,
+): T | null | undefined {
+  const {
+    initializeWithValue = true,
+    version,
+    migrate,
+    validate,
+    schema,
+    onError,
+    removeInvalid,
+  } = options
+
+  // Every hook reading the key shares the same snapshot, see useStorage()
+  const eventName = STORAGE_EVENTS[storage]
+  const store = getStore(STORAGE_ADAPTERS[storage], key, eventName)
+
+  // Without `initializeWithValue`, the first client render returns `undefined` too
+  const [isInitialized, setIsInitialized] = useState(initializeWithValue)
+  useEffect(() => {
+    if (!isInitialized) {
+      setIsInitialized(true)
+    }
+  }, [isInitialized])
+
+  const snapshot = useSyncExternalStore(
+    store.subscribe,
+    IS_SERVER || !isInitialized ? getServerSnapshot : store.getSnapshot,
+    getServerSnapshot,
+  )
+
+  // Parse the stored json or return null, only when the raw value changes
+  const result = useMemo(
+    () =>
+      snapshot === SERVER_SNAPSHOT
+        ? { value: initializeWithValue ? null : undefined }
+        : readSnapshotValue(snapshot, key, {
+            deserializer: options.deserializer,
+            version,
+            migrate,
+            validate,
+            schema,
+          }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [snapshot],
+  )
+
+  // Record the reads, once per stored value
+  useEffect(() => {
+    if (snapshot !== SERVER_SNAPSHOT) {
+      recordStorageAction({
+        action: 'read',
+        storage: eventName,
+        key,
+        newValue: snapshot.raw,
+      })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [snapshot])
+
+  // Report the errors and remove the invalid values, once per read
+  useEffect(() => {
+    const { error } = result
+    if (!error) {
+      return
+    }
+
+    if (onError) {
+      onError(error)
+    } else {
+      console.warn(`Error reading ${storage} key “${key}”:`, error.cause)
+    }
+
+    if (error.kind === 'validation' && removeInvalid) {
+      window[storage].removeItem(key)
+      window.dispatchEvent(new StorageEvent(eventName, { key }))
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [result])
+
+  return result.value
+}
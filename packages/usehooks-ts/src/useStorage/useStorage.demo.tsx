@@ -0,0 +1,47 @@
+import type { StorageAdapter } from './useStorage'
+import { useStorage } from './useStorage'
+
+// An in-memory storage, could be IndexedDB, cookies or anything else
+const memoryStore = new Map<string, string>()
+const memoryStorage: StorageAdapter = {
+  getItem: key => memoryStore.get(key) ?? null,
+  setItem: (key, value) => {
+    memoryStore.set(key, value)
+  },
+  removeItem: key => {
+    memoryStore.delete(key)
+  },
+}
+
+export default function Component() {
+  const [value, setValue, removeValue] = useStorage('test-key', 0, {
+    storage: memoryStorage,
+  })
+
+  return (
+    <div>
+      <p>Count: {value}</p>
+      <button
+        onClick={() => {
+          setValue((x: number) => x + 1)
+        }}
+      >
+        Increment
+      </button>
+      <button
+        onClick={() => {
+          setValue((x: number) => x - 1)
+        }}
+      >
+        Decrement
+      </button>
+      <button
+        onClick={() => {
+          removeValue()
+        }}
+      >
+        Reset
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+
+import type { StorageAdapter } from './useStorage'
+import { useStorage } from './useStorage'
+
+const createMemoryStorage = () => {
+  const store = new Map<string, string>()
+  const storage: StorageAdapter = {
+    getItem: key => store.get(key) ?? null,
+    setItem: (key, value) => {
+      store.set(key, value)
+    },
+    removeItem: key => {
+      store.delete(key)
+    },
+  }
+  return { store, storage }
+}
+
+const createAsyncStorage = () => {
+  const store = new Map<string, string>()
+  const storage: StorageAdapter = {
+    getItem: key => Promise.resolve(store.get(key) ?? null),
+    setItem: (key, value) => {
+      store.set(key, value)
+      return Promise.resolve()
+    },
+    removeItem: key => {
+      store.delete(key)
+      return Promise.resolve()
+    },
+  }
+  return { store, storage }
+}
+
+describe('useStorage()', () => {
+  describe('with a synchronous storage', () => {
+    it('reads the stored value on the first render', () => {
+      const { store, storage } = createMemoryStorage()
+      store.set('key', JSON.stringify('stored'))
+
+      const { result } = renderHook(() =>
+        useStorage('key', 'value', { storage }),
+      )
+
+      expect(result.current[0]).toBe('stored')
+    })
+
+    it('writes and removes the value', () => {
+      const { store, storage } = createMemoryStorage()
+      const { result } = renderHook(() =>
+        useStorage('key', 'value', { storage }),
+      )
+
+      act(() => {
+        result.current[1]('edited')
+      })
+
+      expect(result.current[0]).toBe('edited')
+      expect(store.get('key')).toBe(JSON.stringify('edited'))
+
+      act(() => {
+        result.current[2]()
+      })
+
+      expect(result.current[0]).toBe('value')
+      expect(store.has('key')).toBe(false)
+    })
+
+    it('updates the other hooks using the same storage', () => {
+      const { storage } = createMemoryStorage()
+      const { result: A } = renderHook(() =>
+        useStorage('key', 'initial', { storage }),
+      )
+      const { result: B } = renderHook(() =>
+        useStorage('key', 'initial', { storage }),
+      )
+
+      act(() => {
+        A.current[1]('edited')
+      })
+
+      expect(B.current[0]).toBe('edited')
+    })
+  })
+
+  describe('with an asynchronous storage', () => {
+    it('starts with the initial value then reads the stored value', async () => {
+      const { store, storage } = createAsyncStorage()
+      store.set('key', JSON.stringify('stored'))
+
+      const { result } = renderHook(() =>
+        useStorage('key', 'value', { storage }),
+      )
+
+      expect(result.current[0]).toBe('value')
+
+      await waitFor(() => {
+        expect(result.current[0]).toBe('stored')
+      })
+    })
+
+    it('updates the state immediately and persists the value', async () => {
+      const { store, storage } = createAsyncStorage()
+      const { result } = renderHook(() => useStorage('count', 1, { storage }))
+
+      act(() => {
+        result.current[1](prev => prev + 1)
+        result.current[1](prev => prev + 1)
+      })
+
+      expect(result.current[0]).toBe(3)
+
+      await waitFor(() => {
+        expect(store.get('count')).toBe('3')
+      })
+    })
+
+    it('updates the other hooks once the value is written', async () => {
+      const { storage } = createAsyncStorage()
+      const { result: A } = renderHook(() =>
+        useStorage('key', 'initial', { storage }),
+      )
+      const { result: B } = renderHook(() =>
+        useStorage('key', 'initial', { storage }),
+      )
+
+      act(() => {
+        A.current[1]('edited')
+      })
+
+      await waitFor(() => {
+        expect(B.current[0]).toBe('edited')
+      })
+    })
+  })
+  describe('with broadcast sync', () => {
+    it('only syncs one storage per event', async () => {
+      const error = vitest
+        .spyOn(console, 'error')
+        .mockImplementation(vitest.fn())
+      const first = createMemoryStorage()
+      const second = createMemoryStorage()
+
+      renderHook(() =>
+        useStorage('key', 'value', {
+          storage: first.storage,
+          sync: 'broadcast',
+        }),
+      )
+      renderHook(() =>
+        useStorage('key', 'value', {
+          storage: second.storage,
+          sync: 'broadcast',
+        }),
+      )
+
+      expect(error).toHaveBeenCalledWith(
+        "Another storage is already synced through the “use-storage” event, pass a distinct `eventName` to each storage using `sync: 'broadcast'`",
+      )
+
+      const otherTab = new BroadcastChannel('usehooks-ts:use-storage')
+      otherTab.postMessage({ key: 'key', value: JSON.stringify('edited') })
+
+      await waitFor(() => {
+        expect(first.store.get('key')).toBe(JSON.stringify('edited'))
+      })
+      expect(second.store.has('key')).toBe(false)
+
+      otherTab.close()
+      error.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,555 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+import type { Dispatch, SetStateAction } from 'react'
+import { useSyncExternalStore } from 'use-sync-external-store/shim'
+
+import { useDebounceCallback } from '../useDebounceCallback'
+import { useEventCallback } from '../useEventCallback'
+import { useIsomorphicLayoutEffect } from '../useIsomorphicLayoutEffect'
+import { broadcast, subscribeToBroadcast } from './broadcast'
+import { decodeSnapshot } from './decode'
+import type { EncryptionOptions } from './encryption'
+import { encryptStorage } from './encryption'
+import type {
+  ExpirationOptions,
+  StoredEntry,
+  VersioningOptions,
+} from './envelope'
+import { getExpiration, serializeEnvelope } from './envelope'
+import type { ErrorOptions, StorageError } from './errors'
+import { toStorageError } from './errors'
+import type { EvictionOptions } from './eviction'
+import { forgetKey, setItemWithEviction } from './eviction'
+import { recordStorageAction, storageInspector } from './inspector'
+import type { StorageSnapshot } from './store'
+import { getStore, isPromiseLike } from './store'
+import type { ValidationOptions } from './validation'
+import type { WriteDelayOptions } from './writeDelay'
+import { DEFAULT_FLUSH_TRIGGERS, subscribeToFlush } from './writeDelay'
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
+  interface WindowEventMap {
+    'use-storage': CustomEvent
+  }
+}
+
+/**
+ * A `Storage`-like backend, either synchronous (like `localStorage`) or asynchronous (like IndexedDB).
+ * Every method can return a value directly or a promise resolving to it.
+ */
+export type StorageAdapter = {
+  /** Reads the raw value stored under the given key, `null` if there is none. */
+  getItem: (key: string) => string | null | Promise<string | null>
+  /** Writes the raw value under the given key. */
+  setItem: (key: string, value: string) => void | Promise<void>
+  /** Removes the given key from the storage. */
+  removeItem: (key: string) => void | Promise<void>
+  /**
+   * Whether the tabs of the origin share the storage, like `localStorage`, so the writes broadcast by another tab are only read again, instead of being applied.
+   * @default false
+   */
+  shared?: boolean
+}
+
+/** The status of a storage hook, returned alongside its value. */
+export type StorageStatus = {
+  /** Whether the value is still being read from the storage, only `true` with asynchronous storages. */
+  loading: boolean
+  /** The error of the last read or write, `null` if it succeeded. */
+  error: StorageError | null
+}
+
+/** A value read from the storage, along with the error that made it fall back to the initial value. */
+type ReadEntry<T> = StoredEntry<T> & {
+  /** The error raised while reading the value, if any. */
+  error?: StorageError
+  /** Whether the stored value must be removed, because it expired or is invalid. */
+  outdated?: boolean
+}
+
+/**
+ * Options for customizing the storage backend and the serialization.
+ * @template T - The type of the state to be stored.
+ */
+export type UseStorageOptions<T> = VersioningOptions<T> &
+  ValidationOptions<T> &
+  ExpirationOptions &
+  ErrorOptions &
+  EvictionOptions &
+  EncryptionOptions &
+  WriteDelayOptions & {
+    /**
+     * The storage backend used to persist the value.
+     * It must be the same object on every render, so create it once outside of your components, or memoize it: the hooks reading a key share the store of their storage object, and a new object starts a new store, which never stops loading with an asynchronous storage.
+     */
+    storage: StorageAdapter
+    /**
+     * The synchronous storage read during server-side rendering and hydration, like the cookies of the request on the server and `document.cookie` on the client.
+     * Without it, the hook returns the initial value on the server.
+     */
+    serverStorage?: StorageAdapter
+    /** A function to serialize the value before storing it. */
+    serializer?: (value: T) => string
+    /** A function to deserialize the stored value. */
+    deserializer?: (value: string) => T
+    /**
+     * If `true` (default), the server and the hydration render the value read from `serverStorage`, and synchronous storages are read on the first client render.
+     * If `false`, the first render returns the initial value, on the server and on the client, then the stored value is read once mounted.
+     * Asynchronous storages always start with the initial value.
+     * @default true
+     */
+    initializeWithValue?: boolean
+    /**
+     * The window event dispatched to notify every hook sharing the same storage.
+     * @default 'use-storage'
+     */
+    eventName?: keyof WindowEventMap
+    /**
+     * If `'broadcast'`, writes are sent to the other tabs of the same origin through a [`BroadcastChannel`](https://developer.mozilla.org/en-US/docs/Web/API/BroadcastChannel), which apply them to their own storage, or only read the key again if the storage is `shared`.
+     * This keeps session storage consistent across tabs, and doesn't rely on the `storage` event.
+     * The tabs sync through a channel named after `eventName`, so each synced storage needs its own event.
+     */
+    sync?: 'broadcast'
+  }
+
+const IS_SERVER = typeof window === 'undefined'
+
+// The maximum delay of `setTimeout`, longer delays overflow and fire immediately
+const MAX_TIMEOUT_DELAY = 2 ** 31 - 1
+
+/**
+ * Custom hook that persists state in any [`Storage`](https://developer.mozilla.org/en-US/docs/Web/API/Storage)-like backend, synchronous or asynchronous.
+ * It is the shared core of [`useLocalStorage()`](https://usehooks-ts.com/react-hook/use-local-storage) and [`useSessionStorage()`](https://usehooks-ts.com/react-hook/use-session-storage).
+ * @template T - The type of the state to be stored.
+ * @param {string} key - The key under which the value will be stored.
+ * @param {T | (() => T)} initialValue - The initial value of the state or a function that returns the initial value.
+ * @param {UseStorageOptions<T>} options - The storage backend and options for customizing the behavior of serialization and deserialization.
+ * @returns {[T, Dispatch<SetStateAction<T>>, () => void, StorageStatus]} A tuple containing the stored value, a function to set the value, a function to remove the key from storage and the status of the storage.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-storage)
+ * @example
+ * ```tsx
+ * // Outside of the component, so it's the same object on every render
+ * const memoryStorage = new Map<string, string>()
+ * const storage = {
+ *   getItem: (key: string) => memoryStorage.get(key) ?? null,
+ *   setItem: (key: string, value: string) => { memoryStorage.set(key, value) },
+ *   removeItem: (key: string) => { memoryStorage.delete(key) },
+ * }
+ *
+ * const [count, setCount, removeCount, { loading }] = useStorage('count', 0, { storage });
+ * ```
+ */
+export function useStorage<T>(
+  key: string,
+  initialValue: T | (() => T),
+  options: UseStorageOptions<T>,
+): [T, Dispatch<SetStateAction<T>>, () => void, StorageStatus] {
+  const {
+    initializeWithValue = true,
+    eventName = 'use-storage',
+    version,
+    migrate,
+    validate,
+    schema,
+    onError,
+    removeInvalid,
+    ttl,
+    expiresAt,
+    sync,
+    eviction,
+    encryption,
+    serverStorage,
+    writeDelay,
+    flushOn = DEFAULT_FLUSH_TRIGGERS,
+  } = options
+
+  const encryptionKey = encryption?.key
+  const storage = useMemo(
+    () =>
+      encryptionKey
+        ? encryptStorage(options.storage, encryptionKey)
+        : options.storage,
+    [options.storage, encryptionKey],
+  )
+
+  const serializer = useCallback<(value: T) => string>(
+    value => {
+      if (options.serializer) {
+        return options.serializer(value)
+      }
+
+      return JSON.stringify(value)
+    },
+    [options],
+  )
+
+  // Report the error to `onError`, or log it if there is no handler
+  const reportError = useCallback(
+    (error: StorageError, action: string) => {
+      if (onError) {
+        onError(error)
+        return
+      }
+      console.warn(`Error ${action} storage key “${key}”:`, error.cause)
+    },
+    [key, onError],
+  )
+
+  // Parse the raw stored value or return initialValue, without side effects
+  // as it runs while rendering
+  const parseSnapshot = useCallback(
+    (snapshot: StorageSnapshot): ReadEntry<T> => {
+      const initialEntry: StoredEntry<T> = {
+        value: initialValue instanceof Function ? initialValue() : initialValue,
+      }
+
+      if (snapshot.error !== undefined) {
+        return { ...initialEntry, error: toStorageError(key, snapshot.error) }
+      }
+      if (!snapshot.raw) {
+        return initialEntry
+      }
+
+      // Shared by the hooks reading the same snapshot with the same options
+      const decoded = decodeSnapshot(snapshot, {
+        deserializer: options.deserializer,
+        version,
+        migrate,
+        validate,
+        schema,
+      })
+      if (decoded.status === 'expired') {
+        return { ...initialEntry, outdated: true }
+      }
+      if (decoded.status === 'ignored') {
+        return initialEntry
+      }
+      if (decoded.status === 'error') {
+        return {
+          ...initialEntry,
+          error: toStorageError(key, decoded.cause, decoded.kind),
+          outdated: decoded.kind === 'validation' && removeInvalid,
+        }
+      }
+
+      return decoded.entry
+    },
+    [
+      initialValue,
+      key,
+      options.deserializer,
+      version,
+      migrate,
+      validate,
+      schema,
+      removeInvalid,
+    ],
+  )
+
+  const store = getStore(storage, key, eventName)
+
+  // The server and the hydration render the value of the server storage, if any
+  const serverSnapshot = useMemo<StorageSnapshot>(() => {
+    if (!serverStorage || !initializeWithValue) {
+      return { raw: null, loading: false }
+    }
+
+    try {
+      const raw = serverStorage.getItem(key)
+      return { raw: isPromiseLike(raw) ? null : raw, loading: false }
+    } catch (error) {
+      return { raw: null, loading: false, error }
+    }
+  }, [serverStorage, initializeWithValue, key])
+
+  const getServerSnapshot = useCallback(() => serverSnapshot, [serverSnapshot])
+
+  // Without `initializeWithValue`, the first client render matches the server's too
+  const [isInitialized, setIsInitialized] = useState(initializeWithValue)
+  useEffect(() => {
+    if (!isInitialized) {
+      setIsInitialized(true)
+    }
+  }, [isInitialized])
+
+  const snapshot = useSyncExternalStore(
+    store.subscribe,
+    IS_SERVER || !isInitialized ? getServerSnapshot : store.getSnapshot,
+    getServerSnapshot,
+  )
+
+  // Only parse again when the raw value changes, keeping the same value otherwise
+  const entry = useMemo(
+    () => parseSnapshot(snapshot),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [snapshot],
+  )
+
+  const [writeError, setWriteError] = useState<StorageError | null>(null)
+
+  // We dispatch a custom event so every similar storage hook is notified
+  const notify = useCallback(() => {
+    window.dispatchEvent(new StorageEvent(eventName, { key }))
+  }, [eventName, key])
+
+  // Run the storage operation, then notify the other hooks once it's done.
+  // Returns `false` if it failed synchronously.
+  const commit = useCallback(
+    (
+      operation: () => void | Promise<void>,
+      action: string,
+      value: string | null,
+    ): boolean => {
+      // The previous value and the caller, only while the inspector records them
+      const inspected = storageInspector.isEnabled()
+      const oldValue = inspected ? store.getSnapshot().raw : undefined
+      const stack = inspected ? new Error().stack : undefined
+
+      const onFailure = (cause: unknown) => {
+        const error = toStorageError(key, cause)
+        setWriteError(error)
+        reportError(error, action)
+        // Drop the value set before the write
+        store.refresh()
+      }
+
+      const onSuccess = () => {
+        recordStorageAction({
+          action: value === null ? 'remove' : 'write',
+          storage: eventName,
+          key,
+          oldValue,
+          newValue: value,
+          stack,
+        })
+        notify()
+        if (sync === 'broadcast') {
+          broadcast(eventName, storage, { key, value })
+        }
+      }
+
+      let result: void | Promise<void>
+      try {
+        result = operation()
+      } catch (cause) {
+        onFailure(cause)
+        return false
+      }
+
+      if (isPromiseLike(result)) {
+        // Update every hook without waiting for the write
+        store.update(value)
+        void Promise.resolve(result).then(onSuccess).catch(onFailure)
+        return true
+      }
+
+      onSuccess()
+      return true
+    },
+    [key, notify, sync, eventName, storage, reportError, store],
+  )
+
+  // Write to the storage, evicting other keys when it's full if enabled
+  const writeItem = useCallback(
+    (serialized: string) => {
+      if (!eviction) {
+        return storage.setItem(key, serialized)
+      }
+
+      return setItemWithEviction(
+        storage,
+        eviction.prefix,
+        key,
+        serialized,
+        evictedKey => {
+          window.dispatchEvent(new StorageEvent(eventName, { key: evictedKey }))
+        },
+      )
+    },
+    [eviction, storage, key, eventName],
+  )
+
+  // Serialize the value and write it to the storage
+  const writeValue = useEventCallback((newValue: T) => {
+    let serialized: string
+    try {
+      serialized = serializeEnvelope(serializer(newValue), {
+        version,
+        expiresAt: getExpiration({ ttl, expiresAt }),
+      })
+    } catch (cause) {
+      const error = toStorageError(key, cause, 'serialization')
+      setWriteError(error)
+      reportError(error, 'serializing')
+      return
+    }
+
+    // Save to the storage
+    if (
+      commit(() => writeItem(serialized), 'setting', serialized) &&
+      writeError
+    ) {
+      setWriteError(null)
+    }
+  })
+
+  // The value set while its write is delayed, returned instead of the stored value
+  const [pending, setPending] = useState<{ key: string; value: T } | null>(null)
+  // Also kept in a ref, for the functional updates made before the next render
+  const pendingRef = useRef(pending)
+
+  const updatePending = useCallback(
+    (nextPending: { key: string; value: T } | null) => {
+      pendingRef.current = nextPending
+      setPending(nextPending)
+    },
+    [],
+  )
+
+  const debouncedWrite = useDebounceCallback(
+    useCallback(
+      (newValue: T) => {
+        updatePending(null)
+        writeValue(newValue)
+      },
+      [updatePending, writeValue],
+    ),
+    writeDelay,
+  )
+
+  // Return a wrapped version of useState's setter function that ...
+  // ... persists the new value to the storage.
+  const setValue: Dispatch<SetStateAction<T>> = useEventCallback(value => {
+    // Prevent build error "window is undefined" but keeps working
+    if (IS_SERVER) {
+      console.warn(
+        `Tried setting storage key “${key}” even though environment is not a client`,
+      )
+    }
+
+    try {
+      // Allow value to be a function so we have the same API as useState
+      const newValue =
+        value instanceof Function
+          ? value(
+              pendingRef.current
+                ? pendingRef.current.value
+                : parseSnapshot(store.getSnapshot()).value,
+            )
+          : value
+
+      if (writeDelay === undefined) {
+        writeValue(newValue)
+        return
+      }
+
+      // Update the state now, but only write the last value once the updates stop
+      updatePending({ key, value: newValue })
+      debouncedWrite(newValue)
+    } catch (error) {
+      console.warn(`Error setting storage key “${key}”:`, error)
+    }
+  })
+
+  const removeValue = useEventCallback(() => {
+    // Prevent build error "window is undefined" but keeps working
+    if (IS_SERVER) {
+      console.warn(
+        `Tried removing storage key “${key}” even though environment is not a client`,
+      )
+    }
+
+    // Drop the delayed write, the key is removed anyway
+    debouncedWrite.cancel()
+    updatePending(null)
+
+    // Remove the key from the storage
+    const removed = commit(() => storage.removeItem(key), 'removing', null)
+    if (eviction) {
+      forgetKey(storage, eviction.prefix, key)
+    }
+    if (removed && writeError) {
+      setWriteError(null)
+    }
+  })
+
+  // Record the reads, once per stored value
+  useEffect(() => {
+    if (!IS_SERVER && !snapshot.loading) {
+      recordStorageAction({
+        action: 'read',
+        storage: eventName,
+        key,
+        newValue: snapshot.raw,
+      })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [snapshot])
+
+  // Report the read errors and remove the expired or invalid values, once per read
+  useEffect(() => {
+    if (entry.error) {
+      reportError(entry.error, 'reading')
+    }
+    if (entry.outdated) {
+      commit(() => storage.removeItem(key), 'removing', null)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entry])
+
+  // Remove the value when it expires, falling back to initialValue
+  useEffect(() => {
+    if (entry.expiresAt === undefined) {
+      return
+    }
+
+    const delay = Math.max(entry.expiresAt - Date.now(), 0)
+    const timeout = setTimeout(
+      () => {
+        commit(() => storage.removeItem(key), 'removing', null)
+      },
+      Math.min(delay, MAX_TIMEOUT_DELAY),
+    )
+
+    return () => {
+      clearTimeout(timeout)
+    }
+  }, [entry.expiresAt, commit, storage, key])
+
+  // Write the delayed value before the page is closed
+  useEffect(() => {
+    if (writeDelay === undefined) {
+      return
+    }
+
+    return subscribeToFlush(flushOn, () => {
+      debouncedWrite.flush()
+    })
+  }, [writeDelay, flushOn, debouncedWrite])
+
+  // Write the delayed value before the key changes or the component unmounts,
+  // while it still targets the previous key
+  useIsomorphicLayoutEffect(() => {
+    return () => {
+      debouncedWrite.flush()
+    }
+  }, [key, storage, debouncedWrite])
+
+  // Apply the writes made in other tabs
+  useEffect(() => {
+    if (sync !== 'broadcast') {
+      return
+    }
+
+    return subscribeToBroadcast(eventName, storage)
+  }, [sync, eventName, storage])
+
+  return [
+    pending?.key === key ? pending.value : entry.value,
+    setValue,
+    removeValue,
+    { loading: snapshot.loading, error: writeError ?? entry.error ?? null },
+  ]
+}
@@ -0,0 +1,48 @@
+/**
+ * Options for validating the stored values at runtime, shared by the storage hooks.
+ * @template T - The type of the stored value.
+ */
+export type ValidationOptions<T> = {
+  /** A type guard checking the deserialized value, invalid values are ignored and reported to `onError`. */
+  validate?: (value: unknown) => value is T
+  /** A schema parsing the deserialized value, like a [Zod](https://zod.dev) schema. Invalid values must make `parse` throw. */
+  schema?: {
+    /** Parses the value, throwing if it is invalid. */
+    parse: (value: unknown) => T
+  }
+  /** If `true`, invalid values are removed from the storage. */
+  removeInvalid?: boolean
+}
+
+/**
+ * Validates a deserialized value with the `schema` and `validate` options.
+ * @template T - The type of the stored value.
+ * @param {unknown} value - The deserialized value.
+ * @param {ValidationOptions<T>} options - The validation options.
+ * @returns {{ value: T } | { error: unknown }} The valid value, or the validation error.
+ * @example
+ * ```ts
+ * const result = validateStoredValue(value, { validate: isString })
+ * ```
+ */
+export function validateStoredValue<T>(
+  value: unknown,
+  options: Pick<ValidationOptions<T>, 'validate' | 'schema'>,
+): { value: T } | { error: unknown } {
+  const { validate, schema } = options
+  let validValue = value
+
+  if (schema) {
+    try {
+      validValue = schema.parse(value)
+    } catch (error) {
+      return { error }
+    }
+  }
+
+  if (validate && !validate(validValue)) {
+    return { error: new TypeError('The stored value is invalid') }
+  }
+
+  return { value: validValue as T }
+}
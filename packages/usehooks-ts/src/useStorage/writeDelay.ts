@@ -0,0 +1,62 @@
+/** A page event writing the delayed value right away. */
+export type FlushTrigger = 'pagehide' | 'visibilitychange'
+
+/** Options for delaying the writes to the storage, shared by the storage hooks. */
+export type WriteDelayOptions = {
+  /**
+   * The delay in milliseconds to wait after the last update before writing the value to the storage.
+   * The state still updates immediately, but the other hooks reading the key are only notified once the value is written.
+   * Useful for values updated at a high frequency, like the content of a text editor.
+   */
+  writeDelay?: number
+  /**
+   * The page events writing the delayed value right away, so it isn't lost when the page is closed.
+   * The delayed value is also written when the component unmounts or the key changes.
+   * @default ['pagehide', 'visibilitychange']
+   */
+  flushOn?: FlushTrigger[]
+}
+
+/** The default page events writing the delayed value. */
+export const DEFAULT_FLUSH_TRIGGERS: FlushTrigger[] = [
+  'pagehide',
+  'visibilitychange',
+]
+
+/**
+ * Calls the given function when the page is hidden or closed, to write the delayed values.
+ * @param {FlushTrigger[]} flushOn - The page events to listen to.
+ * @param {() => void} flush - The function writing the delayed value.
+ * @returns {() => void} A function to unsubscribe.
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeToFlush(['pagehide'], () => { debouncedWrite.flush() })
+ * ```
+ */
+export function subscribeToFlush(
+  flushOn: FlushTrigger[],
+  flush: () => void,
+): () => void {
+  const handlePageHide = () => {
+    flush()
+  }
+
+  // The page may be closed without firing `pagehide` once hidden, especially on mobile
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      flush()
+    }
+  }
+
+  if (flushOn.includes('pagehide')) {
+    window.addEventListener('pagehide', handlePageHide)
+  }
+  if (flushOn.includes('visibilitychange')) {
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+  }
+
+  return () => {
+    window.removeEventListener('pagehide', handlePageHide)
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }
+}
@@ -0,0 +1,93 @@
+import { createElement } from 'react'
+
+import type { CSSProperties, ReactElement } from 'react'
+
+import { storageInspector, useStorageInspector } from './useStorageInspector'
+
+/** The props of the storage inspector panel. */
+type StorageInspectorPanelProps = {
+  /** The styles of the panel, fixed to the bottom right corner by default. */
+  style?: CSSProperties
+}
+
+const PANEL_STYLE: CSSProperties = {
+  position: 'fixed',
+  right: 8,
+  bottom: 8,
+  zIndex: 2147483647,
+  maxWidth: 640,
+  maxHeight: 320,
+  overflow: 'auto',
+  padding: 8,
+  background: '#fff',
+  color: '#000',
+  border: '1px solid #ccc',
+  font: '12px monospace',
+}
+
+/**
+ * A small panel listing the reads, writes and removals recorded by the storage inspector, most recent first.
+ * Meant for development builds, along with `storageInspector.enable()`.
+ * @param {StorageInspectorPanelProps} props - The props of the panel.
+ * @returns {ReactElement} The panel.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-storage-inspector)
+ * @example
+ * ```tsx
+ * {process.env.NODE_ENV === 'development' && <StorageInspectorPanel />}
+ * ```
+ */
+export function StorageInspectorPanel({
+  style,
+}: StorageInspectorPanelProps): ReactElement {
+  const records = useStorageInspector()
+
+  // Without JSX, so the build doesn't depend on the `react/jsx-runtime` of React 17+
+  return createElement(
+    'div',
+    { style: { ...PANEL_STYLE, ...style } },
+    createElement('button', { onClick: storageInspector.clear }, 'Clear'),
+    createElement(
+      'table',
+      null,
+      createElement(
+        'tbody',
+        null,
+        records
+          .map((record, index) =>
+            createElement(
+              'tr',
+              { key: `${String(record.timestamp)}-${String(index)}` },
+              createElement(
+                'td',
+                null,
+                new Date(record.timestamp).toLocaleTimeString(),
+              ),
+              createElement('td', null, record.action),
+              createElement('td', null, record.storage),
+              createElement('td', null, record.key),
+              createElement(
+                'td',
+                null,
+                record.oldValue !== undefined &&
+                  `${String(record.oldValue)} → `,
+                String(record.newValue),
+              ),
+              createElement(
+                'td',
+                null,
+                record.stack &&
+                  createElement(
+                    'details',
+                    null,
+                    createElement('summary', null, 'stack'),
+                    createElement('pre', null, record.stack),
+                  ),
+              ),
+            ),
+          )
+          .reverse(),
+      ),
+    ),
+  )
+}
@@ -0,0 +1,2 @@
+export * from './StorageInspectorPanel'
+export * from './useStorageInspector'
@@ -0,0 +1,26 @@
+import { useLocalStorage } from '../useLocalStorage'
+import { StorageInspectorPanel } from './StorageInspectorPanel'
+import { storageInspector } from './useStorageInspector'
+
+// Only record the storage actions in development
+if (process.env.NODE_ENV === 'development') {
+  storageInspector.enable()
+}
+
+export default function Component() {
+  const [count, setCount] = useLocalStorage('count', 0)
+
+  return (
+    <div>
+      <p>Count: {count}</p>
+      <button
+        onClick={() => {
+          setCount(x => x + 1)
+        }}
+      >
+        Increment
+      </button>
+      {process.env.NODE_ENV === 'development' && <StorageInspectorPanel />}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { act, renderHook } from '@testing-library/react'
+
+import { useLocalStorage } from '../useLocalStorage'
+import { storageInspector, useStorageInspector } from './useStorageInspector'
+
+describe('useStorageInspector()', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+  })
+
+  afterEach(() => {
+    storageInspector.disable()
+    act(() => {
+      storageInspector.clear()
+    })
+  })
+
+  it('records nothing until enabled', () => {
+    const { result } = renderHook(() => useStorageInspector())
+    const { result: theme } = renderHook(() =>
+      useLocalStorage('theme', 'light'),
+    )
+
+    act(() => {
+      theme.current[1]('dark')
+    })
+
+    expect(result.current).toEqual([])
+  })
+
+  it('records the reads, writes and removals', () => {
+    storageInspector.enable()
+    window.localStorage.setItem('theme', JSON.stringify('light'))
+    const { result } = renderHook(() => useStorageInspector())
+    const { result: theme } = renderHook(() => useLocalStorage('theme', ''))
+
+    act(() => {
+      theme.current[1]('dark')
+    })
+    act(() => {
+      theme.current[2]()
+    })
+
+    const actions = result.current.map(({ action, oldValue, newValue }) => ({
+      action,
+      oldValue,
+      newValue,
+    }))
+    expect(actions).toEqual([
+      { action: 'read', oldValue: undefined, newValue: '"light"' },
+      { action: 'write', oldValue: '"light"', newValue: '"dark"' },
+      { action: 'read', oldValue: undefined, newValue: '"dark"' },
+      { action: 'remove', oldValue: '"dark"', newValue: null },
+      { action: 'read', oldValue: undefined, newValue: null },
+    ])
+    expect(result.current[1]).toMatchObject({
+      storage: 'local-storage',
+      key: 'theme',
+    })
+    expect(result.current[1].timestamp).toBeTypeOf('number')
+    expect(result.current[1].stack).toBeTypeOf('string')
+  })
+
+  it('notifies the subscribers and keeps the most recent records', () => {
+    storageInspector.enable({ limit: 2 })
+    const listener = vitest.fn()
+    const unsubscribe = storageInspector.subscribe(listener)
+    const { result: count } = renderHook(() => useLocalStorage('count', 0))
+
+    act(() => {
+      count.current[1](1)
+    })
+    act(() => {
+      count.current[1](2)
+    })
+
+    expect(listener).toHaveBeenCalled()
+    expect(storageInspector.getRecords()).toHaveLength(2)
+    expect(storageInspector.getRecords()[1]).toMatchObject({
+      action: 'read',
+      newValue: '2',
+    })
+
+    unsubscribe()
+    storageInspector.clear()
+
+    expect(storageInspector.getRecords()).toEqual([])
+  })
+})
@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from 'use-sync-external-store/shim'
+
+import type { StorageRecord } from '../useStorage/inspector'
+import { storageInspector } from '../useStorage/inspector'
+
+export type { StorageRecord } from '../useStorage/inspector'
+export { storageInspector } from '../useStorage/inspector'
+
+// Nothing is recorded on the server
+const getServerRecords = (): readonly StorageRecord[] => []
+
+/**
+ * Custom hook that returns the reads, writes and removals recorded by the storage inspector, for debugging purposes.
+ * Nothing is recorded until `storageInspector.enable()` is called.
+ * @returns {StorageRecord[]} The records, from the oldest to the most recent.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-storage-inspector)
+ * @example
+ * ```tsx
+ * if (process.env.NODE_ENV === 'development') {
+ *   storageInspector.enable();
+ * }
+ *
+ * // In a component
+ * const records = useStorageInspector();
+ * ```
+ */
+export function useStorageInspector(): readonly StorageRecord[] {
+  return useSyncExternalStore(
+    storageInspector.subscribe,
+    storageInspector.getRecords,
+    getServerRecords,
+  )
+}
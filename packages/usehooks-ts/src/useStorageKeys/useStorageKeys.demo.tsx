@@ -0,0 +1,24 @@
+import { useLocalStorage } from '../useLocalStorage'
+import { useStorageKeys } from './useStorageKeys'
+
+export default function Component() {
+  const [draft, setDraft] = useLocalStorage('drafts:note', '')
+  const { keys, values, clear } = useStorageKeys<string>('drafts:')
+
+  return (
+    <div>
+      <input
+        value={draft}
+        onChange={event => {
+          setDraft(event.target.value)
+        }}
+      />
+      <ul>
+        {keys.map(key => (
+          <li key={key}>{values[key]}</li>
+        ))}
+      </ul>
+      <button onClick={clear}>Clear drafts</button>
+    </div>
+  )
+}
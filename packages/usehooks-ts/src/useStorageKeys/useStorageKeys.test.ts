@@ -0,0 +1,85 @@
+import { act, renderHook } from '@testing-library/react'
+
+import { useLocalStorage } from '../useLocalStorage'
+import { useStorageKeys } from './useStorageKeys'
+
+describe('useStorageKeys()', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+    window.sessionStorage.clear()
+  })
+
+  it('lists the keys starting with the prefix and their values', () => {
+    window.localStorage.setItem('drafts:b', JSON.stringify('second'))
+    window.localStorage.setItem('drafts:a', JSON.stringify('first'))
+    window.localStorage.setItem('settings', JSON.stringify({}))
+
+    const { result } = renderHook(() => useStorageKeys<string>('drafts:'))
+
+    expect(result.current.keys).toEqual(['drafts:a', 'drafts:b'])
+    expect(result.current.values).toEqual({
+      'drafts:a': 'first',
+      'drafts:b': 'second',
+    })
+  })
+
+  it('updates when a key of the namespace is written', () => {
+    const { result } = renderHook(() => useStorageKeys('drafts:'))
+    const { result: draft } = renderHook(() =>
+      useLocalStorage('drafts:a', 'initial'),
+    )
+
+    expect(result.current.keys).toEqual([])
+
+    act(() => {
+      draft.current[1]('edited')
+    })
+
+    expect(result.current.keys).toEqual(['drafts:a'])
+    expect(result.current.values).toEqual({ 'drafts:a': 'edited' })
+  })
+
+  it('keeps the same references when another key is written', () => {
+    window.localStorage.setItem('drafts:a', JSON.stringify('first'))
+    const { result } = renderHook(() => useStorageKeys('drafts:'))
+    const { result: other } = renderHook(() => useLocalStorage('other', 0))
+    const { keys, values } = result.current
+
+    act(() => {
+      other.current[1](1)
+    })
+
+    expect(result.current.keys).toBe(keys)
+    expect(result.current.values).toBe(values)
+  })
+
+  it('clears every key of the namespace', () => {
+    window.localStorage.setItem('drafts:a', JSON.stringify('first'))
+    window.localStorage.setItem('settings', JSON.stringify({}))
+    const { result } = renderHook(() => useStorageKeys('drafts:'))
+    const { result: draft } = renderHook(() =>
+      useLocalStorage('drafts:a', 'initial'),
+    )
+
+    expect(draft.current[0]).toBe('first')
+
+    act(() => {
+      result.current.clear()
+    })
+
+    expect(result.current.keys).toEqual([])
+    expect(draft.current[0]).toBe('initial')
+    expect(window.localStorage.getItem('settings')).not.toBeNull()
+  })
+
+  it('reads the session storage', () => {
+    window.sessionStorage.setItem('drafts:a', JSON.stringify('session'))
+    window.localStorage.setItem('drafts:b', JSON.stringify('local'))
+
+    const { result } = renderHook(() =>
+      useStorageKeys('drafts:', { storage: 'sessionStorage' }),
+    )
+
+    expect(result.current.values).toEqual({ 'drafts:a': 'session' })
+  })
+})
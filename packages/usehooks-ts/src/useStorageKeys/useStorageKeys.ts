@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { useEventCallback } from '../useEventCallback'
+import { useEventListener } from '../useEventListener'
+import { STORAGE_EVENTS } from '../useStorage/adapters'
+import { decodeStoredValue } from '../useStorage/envelope'
+import { recordStorageAction } from '../useStorage/inspector'
+import { parseJSON } from '../useStorage/parse'
+
+/**
+ * Options for choosing the storage and customizing the deserialization.
+ * @template T - The type of the stored values.
+ */
+type UseStorageKeysOptions<T> = {
+  /**
+   * The storage holding the keys.
+   * @default 'localStorage'
+   */
+  storage?: keyof typeof STORAGE_EVENTS
+  /** A function to deserialize the stored values. */
+  deserializer?: (value: string) => T
+  /**
+   * If `true` (default), the hook will initialize reading the storage. In SSR, you should set it to `false`, returning no keys initially.
+   * @default true
+   */
+  initializeWithValue?: boolean
+}
+
+/**
+ * The keys of a namespace and their values.
+ * @template T - The type of the stored values.
+ */
+type UseStorageKeysResult<T> = {
+  /** The stored keys starting with the prefix, sorted alphabetically. */
+  keys: string[]
+  /** The deserialized values by key, without the expired or undecodable ones. */
+  values: Record<string, T>
+  /** Removes every key starting with the prefix from the storage. */
+  clear: () => void
+}
+
+/** The keys and values read from the storage, along with their raw form to skip unchanged reads. */
+type Snapshot<T> = Pick<UseStorageKeysResult<T>, 'keys' | 'values'> & {
+  raw: string
+}
+
+const IS_SERVER = typeof window === 'undefined'
+
+const EMPTY_SNAPSHOT: Snapshot<never> = { keys: [], values: {}, raw: '[]' }
+
+/**
+ * Custom hook that lists and observes the keys starting with a prefix in [`localStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage) or [`sessionStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/sessionStorage), like `drafts:*`.
+ * @template T - The type of the stored values.
+ * @param {string} prefix - The prefix of the keys to list.
+ * @param {UseStorageKeysOptions<T>} [options] - Options for choosing the storage and customizing the deserialization (optional).
+ * @returns {UseStorageKeysResult<T>} The matching keys, their values and a function to remove them all.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-storage-keys)
+ * @example
+ * ```tsx
+ * const { keys, values, clear } = useStorageKeys<string>('drafts:');
+ * // `keys` is updated each time a draft is written with `useLocalStorage()`, in this tab or another one.
+ * ```
+ */
+export function useStorageKeys<T = unknown>(
+  prefix: string,
+  options: UseStorageKeysOptions<T> = {},
+): UseStorageKeysResult<T> {
+  const { storage = 'localStorage', initializeWithValue = true } = options
+  const eventName = STORAGE_EVENTS[storage]
+
+  const deserializer = useCallback<(value: string) => T>(
+    value => {
+      if (options.deserializer) {
+        return options.deserializer(value)
+      }
+      // Support 'undefined' as a value
+      if (value === 'undefined') {
+        return undefined as unknown as T
+      }
+
+      return parseJSON(value) as T
+    },
+    [options],
+  )
+
+  // Read every key of the namespace, with its value
+  const readSnapshot = useCallback((): Snapshot<T> => {
+    // Prevent build error "window is undefined" but keep working
+    if (IS_SERVER) {
+      return EMPTY_SNAPSHOT
+    }
+
+    try {
+      const storageArea = window[storage]
+      const entries: [string, string][] = []
+
+      for (let index = 0; index < storageArea.length; index++) {
+        const key = storageArea.key(index)
+        const raw = key === null ? null : storageArea.getItem(key)
+        if (key?.startsWith(prefix) && raw !== null) {
+          entries.push([key, raw])
+        }
+      }
+      entries.sort(([a], [b]) => (a < b ? -1 : 1))
+
+      const values: Record<string, T> = {}
+      for (const [key, raw] of entries) {
+        try {
+          const decoded = decodeStoredValue(raw, deserializer, {})
+          if (decoded.status === 'success') {
+            values[key] = decoded.entry.value
+          }
+        } catch {
+          // Values written without `useLocalStorage()` may not be decodable
+        }
+      }
+
+      return {
+        keys: entries.map(([key]) => key),
+        values,
+        raw: JSON.stringify(entries),
+      }
+    } catch (error) {
+      console.warn(`Error reading ${storage} keys “${prefix}*”:`, error)
+      return EMPTY_SNAPSHOT
+    }
+  }, [storage, prefix, deserializer])
+
+  const [snapshot, setSnapshot] = useState<Snapshot<T>>(() =>
+    initializeWithValue ? readSnapshot() : EMPTY_SNAPSHOT,
+  )
+
+  // Keep the last raw snapshot, to keep the same references when nothing changed
+  const rawRef = useRef(snapshot.raw)
+
+  const syncSnapshot = useCallback(() => {
+    const nextSnapshot = readSnapshot()
+    if (nextSnapshot.raw !== rawRef.current) {
+      rawRef.current = nextSnapshot.raw
+      setSnapshot(nextSnapshot)
+    }
+  }, [readSnapshot])
+
+  useEffect(() => {
+    syncSnapshot()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storage, prefix])
+
+  const clear = useEventCallback(() => {
+    // Prevent build error "window is undefined" but keeps working
+    if (IS_SERVER) {
+      console.warn(
+        `Tried clearing ${storage} keys “${prefix}*” even though environment is not a client`,
+      )
+      return
+    }
+
+    for (const key of readSnapshot().keys) {
+      const oldValue = window[storage].getItem(key)
+      window[storage].removeItem(key)
+      recordStorageAction({
+        action: 'remove',
+        storage: eventName,
+        key,
+        oldValue,
+        newValue: null,
+      })
+      // Notify the hooks reading each key, like useLocalStorage()
+      window.dispatchEvent(new StorageEvent(eventName, { key }))
+    }
+  })
+
+  const handleStorageChange = useCallback(
+    (event: Event) => {
+      const { key, storageArea } = event as StorageEvent
+      if (storageArea && storageArea !== window[storage]) {
+        return
+      }
+      // A `null` key means the whole storage was cleared
+      if (key === null || key.startsWith(prefix)) {
+        syncSnapshot()
+      }
+    },
+    [storage, prefix, syncSnapshot],
+  )
+
+  // this only works for other documents, not the current one
+  useEventListener('storage', handleStorageChange)
+
+  // this is a custom event, triggered after each write of the storage hooks
+  useEventListener(eventName, handleStorageChange)
+
+  return { keys: snapshot.keys, values: snapshot.values, clear }
+}
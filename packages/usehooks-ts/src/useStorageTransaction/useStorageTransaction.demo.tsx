@@ -0,0 +1,38 @@
+import { useLocalStorage } from '../useLocalStorage'
+import { useStorageTransaction } from './useStorageTransaction'
+
+export default function Component() {
+  const [theme, setTheme] = useLocalStorage('theme', 'light')
+  const [fontSize, setFontSize] = useLocalStorage('fontSize', 16)
+  const updateStorage = useStorageTransaction()
+
+  const resetPreferences = () => {
+    updateStorage(tx => {
+      tx.remove('theme')
+      tx.remove('fontSize')
+    })
+  }
+
+  return (
+    <div>
+      <p>
+        Theme: {theme}, font size: {fontSize}px
+      </p>
+      <button
+        onClick={() => {
+          setTheme(theme === 'light' ? 'dark' : 'light')
+        }}
+      >
+        Toggle theme
+      </button>
+      <button
+        onClick={() => {
+          setFontSize(size => size + 1)
+        }}
+      >
+        Increase font size
+      </button>
+      <button onClick={resetPreferences}>Reset preferences</button>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import { act, renderHook } from '@testing-library/react'
+
+import { useLocalStorage } from '../useLocalStorage'
+import { useSessionStorage } from '../useSessionStorage'
+import { useStorageTransaction } from './useStorageTransaction'
+
+describe('useStorageTransaction()', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+    window.sessionStorage.clear()
+  })
+
+  afterEach(() => {
+    vitest.restoreAllMocks()
+  })
+
+  it('writes every key and notifies the hooks once', () => {
+    window.localStorage.setItem('sidebar', JSON.stringify(true))
+    const { result: theme } = renderHook(() =>
+      useLocalStorage('theme', 'light'),
+    )
+    const { result: sidebar } = renderHook(() =>
+      useLocalStorage('sidebar', false),
+    )
+    const { result } = renderHook(() => useStorageTransaction())
+    const dispatchEvent = vitest.spyOn(window, 'dispatchEvent')
+
+    let written = false
+    act(() => {
+      written = result.current(tx => {
+        tx.set('theme', 'dark')
+        tx.set('fontSize', 16)
+        tx.remove('sidebar')
+      })
+    })
+
+    expect(written).toBe(true)
+    expect(window.localStorage.getItem('theme')).toBe(JSON.stringify('dark'))
+    expect(window.localStorage.getItem('fontSize')).toBe('16')
+    expect(window.localStorage.getItem('sidebar')).toBeNull()
+    expect(dispatchEvent).toHaveBeenCalledTimes(1)
+    expect(theme.current[0]).toBe('dark')
+    expect(sidebar.current[0]).toBe(false)
+  })
+
+  it('restores the written keys when a write fails', () => {
+    window.localStorage.setItem('theme', JSON.stringify('light'))
+    const onError = vitest.fn()
+    const { result: theme } = renderHook(() => useLocalStorage('theme', ''))
+    const { result } = renderHook(() => useStorageTransaction({ onError }))
+
+    const setItem = Storage.prototype.setItem
+    vitest.spyOn(Storage.prototype, 'setItem').mockImplementation(function (
+      this: Storage,
+      key,
+      value,
+    ) {
+      if (key === 'fontSize') {
+        throw new DOMException('Full', 'QuotaExceededError')
+      }
+      setItem.call(this, key, value)
+    })
+
+    let written = true
+    act(() => {
+      written = result.current(tx => {
+        tx.set('theme', 'dark')
+        tx.set('fontSize', 16)
+      })
+    })
+
+    expect(written).toBe(false)
+    expect(window.localStorage.getItem('theme')).toBe(JSON.stringify('light'))
+    expect(window.localStorage.getItem('fontSize')).toBeNull()
+    expect(theme.current[0]).toBe('light')
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'quota', key: 'fontSize' }),
+    )
+  })
+
+  it('writes nothing when a value can not be serialized', () => {
+    const onError = vitest.fn()
+    const { result } = renderHook(() => useStorageTransaction({ onError }))
+
+    act(() => {
+      result.current(tx => {
+        tx.set('theme', 'dark')
+        tx.set('count', BigInt(1))
+      })
+    })
+
+    expect(window.localStorage.getItem('theme')).toBeNull()
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'serialization', key: 'count' }),
+    )
+  })
+
+  it('writes to the session storage', () => {
+    const { result: theme } = renderHook(() =>
+      useSessionStorage('theme', 'light'),
+    )
+    const { result } = renderHook(() =>
+      useStorageTransaction({ storage: 'sessionStorage' }),
+    )
+
+    act(() => {
+      result.current(tx => {
+        tx.set('theme', 'dark')
+      })
+    })
+
+    expect(window.localStorage.getItem('theme')).toBeNull()
+    expect(theme.current[0]).toBe('dark')
+  })
+})
@@ -0,0 +1,183 @@
+import { useCallback } from 'react'
+
+import { STORAGE_EVENTS } from '../useStorage/adapters'
+import type { ExpirationOptions } from '../useStorage/envelope'
+import { getExpiration, serializeEnvelope } from '../useStorage/envelope'
+import type { ErrorOptions, StorageError } from '../useStorage/errors'
+import { toStorageError } from '../useStorage/errors'
+import { recordStorageAction, storageInspector } from '../useStorage/inspector'
+
+/**
+ * Options for writing a value in a transaction, matching the options of the hooks reading it.
+ * @template T - The type of the value.
+ */
+type TransactionSetOptions<T> = ExpirationOptions & {
+  /** A function to serialize the value before storing it. */
+  serializer?: (value: T) => string
+  /** The version of the stored value shape, see `useLocalStorage()`. */
+  version?: number
+}
+
+/** The writes of a transaction, applied together once the callback returns. */
+export type StorageTransaction = {
+  /** Sets the value of a key, serialized like `useLocalStorage()` does. */
+  set: <T>(key: string, value: T, options?: TransactionSetOptions<T>) => void
+  /** Removes a key from the storage. */
+  remove: (key: string) => void
+}
+
+/** Options for choosing the storage and handling the errors. */
+type UseStorageTransactionOptions = ErrorOptions & {
+  /**
+   * The storage holding the keys.
+   * @default 'localStorage'
+   */
+  storage?: keyof typeof STORAGE_EVENTS
+}
+
+const IS_SERVER = typeof window === 'undefined'
+
+/**
+ * Custom hook that writes several keys of [`localStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/localStorage) or [`sessionStorage`](https://developer.mozilla.org/en-US/docs/Web/API/Window/sessionStorage) at once.
+ * Either every write succeeds, or the written keys are restored, and the hooks reading them are notified once.
+ * @param {UseStorageTransactionOptions} [options] - Options for choosing the storage and handling the errors (optional).
+ * @returns {(callback: (tx: StorageTransaction) => void) => boolean} A function running a transaction, returning `true` if it was written.
+ * @public
+ * @see [Documentation](https://usehooks-ts.com/react-hook/use-storage-transaction)
+ * @example
+ * ```tsx
+ * const updateStorage = useStorageTransaction();
+ *
+ * const resetPreferences = () => {
+ *   updateStorage(tx => {
+ *     tx.set('theme', 'light');
+ *     tx.set('fontSize', 16);
+ *     tx.remove('sidebar');
+ *   });
+ * };
+ * ```
+ */
+export function useStorageTransaction(
+  options: UseStorageTransactionOptions = {},
+): (callback: (tx: StorageTransaction) => void) => boolean {
+  const { storage = 'localStorage', onError } = options
+
+  // Report the error to `onError`, or log it if there is no handler
+  const reportError = useCallback(
+    (error: StorageError) => {
+      if (onError) {
+        onError(error)
+        return
+      }
+      console.warn(`Error updating storage key “${error.key}”:`, error.cause)
+    },
+    [onError],
+  )
+
+  return useCallback(
+    callback => {
+      // Prevent build error "window is undefined" but keeps working
+      if (IS_SERVER) {
+        console.warn(
+          `Tried updating ${storage} even though environment is not a client`,
+        )
+        return false
+      }
+
+      // The raw value of each written key, `null` to remove it, the last write winning
+      const writes = new Map<string, string | null>()
+      let serializationError: StorageError | undefined
+
+      try {
+        callback({
+          set: (key, value, setOptions = {}) => {
+            const { serializer, version, ttl, expiresAt } = setOptions
+            let serialized: string
+            try {
+              serialized = serializer
+                ? serializer(value)
+                : JSON.stringify(value)
+            } catch (cause) {
+              serializationError = toStorageError(key, cause, 'serialization')
+              throw cause
+            }
+
+            writes.set(
+              key,
+              serializeEnvelope(serialized, {
+                version,
+                expiresAt: getExpiration({ ttl, expiresAt }),
+              }),
+            )
+          },
+          remove: key => {
+            writes.set(key, null)
+          },
+        })
+      } catch (error) {
+        // The errors thrown by the callback itself are not storage errors
+        if (!serializationError) {
+          throw error
+        }
+        // Nothing was written yet
+        reportError(serializationError)
+        return false
+      }
+
+      if (writes.size === 0) {
+        return true
+      }
+
+      const storageArea = window[storage]
+      const stack = storageInspector.isEnabled() ? new Error().stack : undefined
+      // The previous raw value of each written key, to restore it on failure
+      const previous = new Map<string, string | null>()
+
+      for (const [key, value] of Array.from(writes)) {
+        try {
+          previous.set(key, storageArea.getItem(key))
+          if (value === null) {
+            storageArea.removeItem(key)
+          } else {
+            storageArea.setItem(key, value)
+          }
+        } catch (cause) {
+          // Restore the keys written so far, the storage had room for them before
+          previous.forEach((previousValue, previousKey) => {
+            try {
+              if (previousValue === null) {
+                storageArea.removeItem(previousKey)
+              } else {
+                storageArea.setItem(previousKey, previousValue)
+              }
+            } catch (error) {
+              console.warn(
+                `Error restoring storage key “${previousKey}”:`,
+                error,
+              )
+            }
+          })
+
+          reportError(toStorageError(key, cause))
+          return false
+        }
+      }
+
+      previous.forEach((oldValue, key) => {
+        recordStorageAction({
+          action: writes.get(key) === null ? 'remove' : 'write',
+          storage: STORAGE_EVENTS[storage],
+          key,
+          oldValue,
+          newValue: writes.get(key) ?? null,
+          stack,
+        })
+      })
+
+      // A single event without key, so every hook of the storage reads its key again
+      window.dispatchEvent(new StorageEvent(STORAGE_EVENTS[storage]))
+      return true
+    },
+    [storage, reportError],
+  )
+}